@@ -0,0 +1,251 @@
+import {createServer, IncomingMessage, Server, ServerResponse} from "node:http";
+import {Codec, IGlideKitClient, LoggerLike, noopLogger} from "../core/types.js";
+import {DlqFilter, DlqManager, makeDlqManager} from "../dlq/dlqManager.js";
+import {getQueueStats} from "../stats/queueStats.js";
+
+export type AdminStream = string | {
+    stream: string;
+    group?: string;               // limit stats to one group
+    codec?: Codec<unknown>;       // decodes DLQ entries and encodes replacement payloads; without one requeues keep the raw fields
+};
+
+export type AdminServerOpts = {
+    client: IGlideKitClient;
+    port: number;                 // 0 picks a free port
+    host?: string;                // default all interfaces
+    workers?: Record<string, { isRunning(): boolean }>;  // consumers, retry daemons, sweepers, cron schedulers
+    streams?: AdminStream[];      // the only streams /stats and /dlq will touch
+    metrics?: { render(): string; contentType: string };  // e.g. makePrometheusRegistry()
+    readOnly?: boolean;           // disables DLQ requeue
+    readyTimeoutMs?: number;      // client check budget for /readyz, default 2000
+    log?: LoggerLike;
+};
+
+export type AdminServer = {
+    // Resolves with the bound port once listening.
+    start(): Promise<number>;
+    stop(): Promise<void>;
+    isRunning(): boolean;
+};
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = "HttpError";
+    }
+}
+
+const MAX_BODY_BYTES = 1 << 20;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, {"Content-Type": "application/json"});
+    res.end(JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw new HttpError(413, "request body too large");
+        chunks.push(chunk);
+    }
+    if (size === 0) return {};
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } catch {
+        throw new HttpError(400, "request body is not valid JSON");
+    }
+}
+
+// Epoch ms or anything Date.parse reads, e.g. an ISO date.
+function timeParam(query: URLSearchParams, name: string): number | undefined {
+    const raw = query.get(name);
+    if (!raw) return undefined;
+    const ms = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+    if (Number.isNaN(ms)) throw new HttpError(400, `invalid '${name}': expected epoch ms or a date`);
+    return ms;
+}
+
+function countParam(query: URLSearchParams): number | undefined {
+    const raw = query.get("count");
+    if (!raw) return undefined;
+    if (!/^\d+$/.test(raw) || Number(raw) === 0) throw new HttpError(400, "invalid 'count': expected a positive integer");
+    return Number(raw);
+}
+
+function filterFrom(query: URLSearchParams): DlqFilter {
+    const filter: DlqFilter = {};
+    const type = query.get("type");
+    const reason = query.get("reason");
+    const from = timeParam(query, "from");
+    const to = timeParam(query, "to");
+    if (type) filter.type = type;
+    if (reason) filter.reason = reason;
+    if (from !== undefined) filter.from = from;
+    if (to !== undefined) filter.to = to;
+    return filter;
+}
+
+/**
+ * Dependency-free admin endpoints on node:http for probes and on-call tooling:
+ *
+ *   GET  /healthz                       every registered worker is running
+ *   GET  /readyz                        ... and the client answers within readyTimeoutMs
+ *   GET  /metrics                       `metrics.render()`
+ *   GET  /stats[/:stream]               getQueueStats for the registered streams
+ *   GET  /dlq/:stream?count&after&type&reason&from&to
+ *   GET  /dlq/:stream/:id
+ *   POST /dlq/:stream/requeue           {"ids": [...], "payload"?: ...}
+ *
+ * There is no authentication: bind it to a private interface or put it behind your ingress.
+ */
+export function startAdminServer(opts: AdminServerOpts): AdminServer {
+    const {client, port, host, workers = {}, metrics, readOnly = false, readyTimeoutMs = 2000, log = noopLogger} = opts;
+    const streams = new Map((opts.streams ?? []).map((entry) => {
+        const config = typeof entry === "string" ? {stream: entry} : entry;
+        return [config.stream, config] as const;
+    }));
+    const dlqManagers = new Map<string, DlqManager<unknown>>();
+    let server: Server | null = null;
+
+    function streamConfig(stream: string) {
+        const config = streams.get(stream);
+        if (!config) throw new HttpError(404, `stream '${stream}' is not registered`);
+        return config;
+    }
+
+    function dlqFor(stream: string): DlqManager<unknown> {
+        const config = streamConfig(stream);
+        let manager = dlqManagers.get(stream);
+        if (!manager) {
+            manager = makeDlqManager<unknown>({client, stream, codec: config.codec, log});
+            dlqManagers.set(stream, manager);
+        }
+        return manager;
+    }
+
+    function workerStatus() {
+        const status: Record<string, boolean> = {};
+        for (const [name, worker] of Object.entries(workers)) status[name] = worker.isRunning();
+        return {status, ok: Object.values(status).every(Boolean)};
+    }
+
+    async function clientResponds(): Promise<boolean> {
+        let timer: NodeJS.Timeout | undefined;
+        const check = client.ping ? client.ping() : client.xlen(streams.keys().next().value ?? "glide-kit:readyz");
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error("timed out")), readyTimeoutMs);
+        });
+        try {
+            await Promise.race([check, timeout]);
+            return true;
+        } catch (err) {
+            log.warn("admin: readiness check failed", {err});
+            return false;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    async function route(req: IncomingMessage, res: ServerResponse) {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+        const method = req.method ?? "GET";
+
+        if (method === "GET" && url.pathname === "/healthz") {
+            const {status, ok} = workerStatus();
+            return sendJson(res, ok ? 200 : 503, {status: ok ? "ok" : "unhealthy", workers: status});
+        }
+        if (method === "GET" && url.pathname === "/readyz") {
+            const {status, ok} = workerStatus();
+            const clientOk = await clientResponds();
+            const ready = ok && clientOk;
+            return sendJson(res, ready ? 200 : 503, {
+                status: ready ? "ok" : "unavailable",
+                workers: status,
+                client: clientOk ? "ok" : "unreachable",
+            });
+        }
+        if (method === "GET" && url.pathname === "/metrics") {
+            if (!metrics) throw new HttpError(404, "metrics are not configured");
+            res.writeHead(200, {"Content-Type": metrics.contentType});
+            res.end(metrics.render());
+            return;
+        }
+        if (method === "GET" && parts[0] === "stats" && parts.length <= 2) {
+            const selected = parts[1] ? [streamConfig(parts[1])] : [...streams.values()];
+            const stats = [];
+            for (const config of selected) {
+                stats.push(await getQueueStats({client, stream: config.stream, group: config.group}));
+            }
+            return sendJson(res, 200, parts[1] ? stats[0] : stats);
+        }
+        if (parts[0] === "dlq" && parts.length >= 2) {
+            const dlq = dlqFor(parts[1]);
+            if (method === "GET" && parts.length === 2) {
+                return sendJson(res, 200, await dlq.list({
+                    ...filterFrom(url.searchParams),
+                    count: countParam(url.searchParams),
+                    after: url.searchParams.get("after") ?? undefined,
+                }));
+            }
+            if (parts.length === 3 && parts[2] === "requeue") {
+                if (method !== "POST") throw new HttpError(405, `${method} not allowed on ${url.pathname}; use POST`);
+                if (readOnly) throw new HttpError(403, "admin server is read-only");
+                const body = await readJson(req);
+                const {ids, payload} = (typeof body === "object" && body !== null ? body : {}) as { ids?: unknown; payload?: unknown };
+                if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id): id is string => typeof id === "string")) {
+                    throw new HttpError(400, "body must be {\"ids\": [\"<dlq id>\", ...], \"payload\"?: ...}");
+                }
+                if (payload !== undefined && !streamConfig(parts[1]).codec) {
+                    throw new HttpError(400, `stream '${parts[1]}' has no codec to encode a replacement payload`);
+                }
+                return sendJson(res, 200, await dlq.requeue(ids, {payload}));
+            }
+            if (method === "GET" && parts.length === 3) {
+                const entry = await dlq.peek(parts[2]);
+                if (!entry) throw new HttpError(404, `no DLQ entry ${parts[2]}`);
+                return sendJson(res, 200, entry);
+            }
+        }
+        throw new HttpError(404, `no route for ${method} ${url.pathname}`);
+    }
+
+    return {
+        start() {
+            if (server) return Promise.resolve((server.address() as { port: number }).port);
+            const created = createServer((req, res) => {
+                route(req, res).catch((err) => {
+                    if (err instanceof HttpError) return sendJson(res, err.status, {error: err.message});
+                    log.error("admin: request failed", {url: req.url, err});
+                    sendJson(res, 500, {error: err instanceof Error ? err.message : String(err)});
+                });
+            });
+            server = created;
+            return new Promise<number>((resolve, reject) => {
+                const failed = (err: Error) => {
+                    server = null;
+                    reject(err);
+                };
+                created.once("error", failed);
+                created.listen(port, host, () => {
+                    created.off("error", failed);
+                    resolve((created.address() as { port: number }).port);
+                });
+            });
+        },
+        async stop() {
+            if (!server) return;
+            const closing = server;
+            server = null;
+            await new Promise<void>((resolve, reject) => {
+                closing.close((err) => err ? reject(err) : resolve());
+                closing.closeAllConnections();
+            });
+        },
+        isRunning() {
+            return !!server?.listening;
+        },
+    };
+}
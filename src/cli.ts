@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+import dotenv from "dotenv";
+import {GlideClient} from "@valkey/valkey-glide";
+import {GlideKitClient} from "./core/glideKitClient.js";
+import {dlqUsage, runDlqCommand} from "./cli/dlqCommand.js";
+
+dotenv.config({quiet: true});
+
+const usage = `usage: glide-kit <command> [options]
+
+Connects to VALKEY_HOST:VALKEY_PORT (or --host/--port, --tls).
+
+${dlqUsage}`;
+
+function takeConnectionArgs(argv: string[]) {
+    const rest: string[] = [];
+    let host = process.env.VALKEY_HOST ?? "localhost";
+    let port = Number(process.env.VALKEY_PORT ?? 6379);
+    let useTLS = false;
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i] === "--host") host = argv[++i];
+        else if (argv[i] === "--port") port = Number(argv[++i]);
+        else if (argv[i] === "--tls") useTLS = true;
+        else rest.push(argv[i]);
+    }
+    return {host, port, useTLS, rest};
+}
+
+async function main(): Promise<number> {
+    const [command, ...argv] = process.argv.slice(2);
+    if (command !== "dlq") {
+        console.error(usage);
+        return 2;
+    }
+    const {host, port, useTLS, rest} = takeConnectionArgs(argv);
+    const glideClient = await GlideClient.createClient({addresses: [{host, port}], useTLS, requestTimeout: 10_000});
+    try {
+        return await runDlqCommand(rest, {
+            client: new GlideKitClient(Promise.resolve(glideClient)),
+            out: (text) => process.stdout.write(text + "\n"),
+            err: (text) => process.stderr.write(text + "\n"),
+        });
+    } finally {
+        glideClient.close();
+    }
+}
+
+main().then((code) => {
+    process.exitCode = code;
+}, (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+});
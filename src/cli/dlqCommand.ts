@@ -0,0 +1,122 @@
+import {parseArgs} from "node:util";
+import {Codec, IGlideKitClient} from "../core/types.js";
+import {jsonCodec} from "../codec/jsonCodec.js";
+import {DlqFilter, makeDlqManager} from "../dlq/dlqManager.js";
+
+export const dlqUsage = `usage: glide-kit dlq <command> --stream <name> [options]
+
+commands:
+  list      [--count n] [--after id] [filters]   page through entries (JSON)
+  peek      <id>                                  show one entry
+  requeue   <id...> | --all [filters]             move entries back to the stream unchanged, attempt reset to 0
+            [--payload <json>]                    replace the payload (written as JSON) while requeueing
+  delete    <id...>                               remove entries
+  purge     [filters] --yes                       remove all (matching) entries
+  export    [filters]                             write entries as NDJSON to stdout
+
+filters: --type <type> --reason <reason> --from <iso|ms> --to <iso|ms>`;
+
+export type DlqCommandContext = {
+    client: IGlideKitClient;
+    out: (text: string) => void;
+    err: (text: string) => void;
+    // Decodes entries and encodes --payload. Without one entries are shown as raw JSON and requeued with their
+    // fields untouched, and --payload is written with jsonCodec.
+    codec?: Codec<unknown>;
+};
+
+function parseTime(value: string | undefined): Date | undefined {
+    if (value === undefined) return undefined;
+    const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+    if (Number.isNaN(date.getTime())) throw new Error(`invalid time '${value}'`);
+    return date;
+}
+
+/**
+ * Runs `glide-kit dlq ...` against an already connected client and returns the process exit code.
+ * Kept separate from the bin entry so it can be driven with any IGlideKitClient.
+ */
+export async function runDlqCommand(argv: string[], ctx: DlqCommandContext): Promise<number> {
+    const {values, positionals} = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            stream: {type: "string"},
+            count: {type: "string"},
+            after: {type: "string"},
+            type: {type: "string"},
+            reason: {type: "string"},
+            from: {type: "string"},
+            to: {type: "string"},
+            payload: {type: "string"},
+            all: {type: "boolean"},
+            yes: {type: "boolean"},
+        },
+    });
+    const [command, ...ids] = positionals;
+    if (!command || !values.stream) {
+        ctx.err(dlqUsage);
+        return 2;
+    }
+
+    const codec = ctx.codec ?? (values.payload !== undefined ? jsonCodec() : undefined);
+    const manager = makeDlqManager<unknown>({client: ctx.client, stream: values.stream, codec});
+    const filter: DlqFilter = {
+        type: values.type,
+        reason: values.reason,
+        from: parseTime(values.from),
+        to: parseTime(values.to),
+    };
+    for (const key of Object.keys(filter) as Array<keyof DlqFilter>) {
+        if (filter[key] === undefined) delete filter[key];
+    }
+
+    switch (command) {
+        case "list": {
+            const page = await manager.list({...filter, count: values.count ? Number(values.count) : undefined, after: values.after});
+            ctx.out(JSON.stringify(page, null, 2));
+            return 0;
+        }
+        case "peek": {
+            if (ids.length !== 1) break;
+            const entry = await manager.peek(ids[0]);
+            if (!entry) {
+                ctx.err(`no DLQ entry ${ids[0]}`);
+                return 1;
+            }
+            ctx.out(JSON.stringify(entry, null, 2));
+            return 0;
+        }
+        case "requeue": {
+            let targets = ids;
+            if (values.all) {
+                targets = [];
+                for await (const line of manager.exportNdjson(filter)) targets.push(JSON.parse(line).id);
+            }
+            if (targets.length === 0) break;
+            const payload = values.payload !== undefined ? JSON.parse(values.payload) : undefined;
+            const results = await manager.requeue(targets, {payload});
+            for (const {id, requeuedAs} of results) ctx.out(`${id} -> ${requeuedAs ?? "skipped"}`);
+            return results.every((r) => r.requeuedAs) ? 0 : 1;
+        }
+        case "delete": {
+            if (ids.length === 0) break;
+            ctx.out(`deleted ${await manager.delete(ids)}`);
+            return 0;
+        }
+        case "purge": {
+            if (!values.yes) {
+                ctx.err("purge is destructive; pass --yes to confirm");
+                return 2;
+            }
+            ctx.out(`purged ${await manager.purge(filter)}`);
+            return 0;
+        }
+        case "export": {
+            for await (const line of manager.exportNdjson(filter)) ctx.out(line.trimEnd());
+            return 0;
+        }
+    }
+    ctx.err(dlqUsage);
+    return 2;
+}
@@ -0,0 +1,13 @@
+// Thrown by codecs when a message cannot be encoded or decoded. Consumers send decode failures straight to
+// the DLQ with the raw fields.
+export class CodecError extends Error {
+    constructor(
+        readonly op: "encode" | "decode",
+        message: string,
+        readonly issues?: unknown,  // validator details, e.g. zod issues
+        readonly cause?: unknown,
+    ) {
+        super(`${op}: ${message}`);
+        this.name = "CodecError";
+    }
+}
@@ -0,0 +1,64 @@
+import {brotliCompressSync, brotliDecompressSync, deflateSync, gunzipSync, gzipSync, inflateSync} from "node:zlib";
+import {Codec, Envelope, StreamFields} from "../core/types.js";
+import {fieldBytes, fieldText, fromBytes} from "../core/fields.js";
+import {CodecError} from "./codecError.js";
+
+export type CompressionAlgorithm = "gzip" | "brotli" | "deflate";
+
+export type CompressedCodecOpts = {
+    algorithm?: CompressionAlgorithm;   // default "gzip"
+    thresholdBytes?: number;            // payloads smaller than this stay as they are; default 1024
+};
+
+// Field recording how `payload` was compressed; absent means it was not.
+export const COMPRESSION_FIELD = "compression";
+
+const compressors: Record<CompressionAlgorithm, (data: Buffer) => Buffer> = {
+    gzip: (data) => gzipSync(data),
+    brotli: (data) => brotliCompressSync(data),
+    deflate: (data) => deflateSync(data),
+};
+
+const decompressors: Record<CompressionAlgorithm, (data: Buffer) => Buffer> = {
+    gzip: (data) => gunzipSync(data),
+    brotli: (data) => brotliDecompressSync(data),
+    deflate: (data) => inflateSync(data),
+};
+
+/**
+ * Compresses the `payload` field written by `inner` once it reaches `thresholdBytes`, storing the raw
+ * compressed bytes and the algorithm in the `compression` field. Decoding looks at that field rather than the
+ * codec's own settings, so the algorithm or threshold can change while older messages are still in flight,
+ * and uncompressed messages (small ones, or ones written before this codec) decode as they are.
+ */
+export function compressedCodec<T>(inner: Codec<T>, opts: CompressedCodecOpts = {}): Codec<T> {
+    const algorithm = opts.algorithm ?? "gzip";
+    const thresholdBytes = opts.thresholdBytes ?? 1024;
+    if (!(algorithm in compressors)) throw new Error(`unknown compression algorithm '${algorithm}'`);
+
+    return {
+        encode: (env: Envelope<T>) => {
+            const fields = inner.encode(env);
+            if (fields.payload === undefined) return fields;
+            const payload = fieldBytes(fields.payload);
+            if (payload.length < thresholdBytes) return fields;
+            return {...fields, payload: compressors[algorithm](payload), [COMPRESSION_FIELD]: algorithm};
+        },
+        decode: (fields: StreamFields) => {
+            const {[COMPRESSION_FIELD]: recorded, ...rest} = fields;
+            if (recorded === undefined) return inner.decode(fields);
+            const used = fieldText(recorded) as CompressionAlgorithm;
+            const decompress = decompressors[used];
+            if (!decompress) throw new CodecError("decode", `unknown compression algorithm '${used}'`);
+            if (rest.payload === undefined) throw new CodecError("decode", "compressed message has no payload");
+            let payload: Buffer;
+            try {
+                payload = decompress(fieldBytes(rest.payload));
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                throw new CodecError("decode", `${used} decompression failed: ${message}`, undefined, err);
+            }
+            return inner.decode({...rest, payload: fromBytes(payload)});
+        },
+    };
+}
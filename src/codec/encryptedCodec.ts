@@ -0,0 +1,71 @@
+import {createCipheriv, createDecipheriv, randomBytes} from "node:crypto";
+import {Codec, Envelope, StreamFields} from "../core/types.js";
+import {fieldBytes, fieldText, fromBytes} from "../core/fields.js";
+import {CodecError} from "./codecError.js";
+
+export type EncryptedCodecOpts = {
+    keys: Record<string, Buffer>;     // kid → 32-byte AES-256 key; keep retired keys until their messages are gone
+    activeKid: string;                // key new messages are encrypted with
+    allowPlaintext?: boolean;         // decode messages without a `kid` as they are (while adopting); default false
+};
+
+// Field holding the id of the key `payload` was encrypted with.
+export const KEY_ID_FIELD = "kid";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Encrypts the `payload` field written by `inner` with AES-256-GCM, stored as iv | auth tag | ciphertext, and
+ * records the key id in `kid`. Headers stay readable for routing and the DLQ tools. Decoding picks the key by
+ * the recorded `kid`, so after a rotation messages still waiting in the stream, the retry ZSET or the DLQ
+ * decrypt with the key they were written with. A tampered payload or an unknown key fails with a CodecError.
+ */
+export function encryptedCodec<T>(inner: Codec<T>, opts: EncryptedCodecOpts): Codec<T> {
+    const {keys, activeKid} = opts;
+    for (const [kid, key] of Object.entries(keys)) {
+        if (key.length !== 32) throw new Error(`key '${kid}' must be 32 bytes for ${ALGORITHM}, got ${key.length}`);
+    }
+    if (!keys[activeKid]) throw new Error(`active key '${activeKid}' is not in keys`);
+
+    return {
+        encode: (env: Envelope<T>) => {
+            const fields = inner.encode(env);
+            if (fields.payload === undefined) return fields;
+            const iv = randomBytes(IV_BYTES);
+            const cipher = createCipheriv(ALGORITHM, keys[activeKid], iv);
+            cipher.setAAD(Buffer.from(activeKid, "utf8"));
+            const ciphertext = Buffer.concat([cipher.update(fieldBytes(fields.payload)), cipher.final()]);
+            return {
+                ...fields,
+                payload: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]),
+                [KEY_ID_FIELD]: activeKid,
+            };
+        },
+        decode: (fields: StreamFields) => {
+            const {[KEY_ID_FIELD]: recorded, ...rest} = fields;
+            if (recorded === undefined) {
+                if (opts.allowPlaintext) return inner.decode(fields);
+                throw new CodecError("decode", "message is not encrypted");
+            }
+            const kid = fieldText(recorded);
+            const key = keys[kid];
+            if (!key) throw new CodecError("decode", `unknown key id '${kid}'`);
+            if (rest.payload === undefined) throw new CodecError("decode", "encrypted message has no payload");
+            const data = fieldBytes(rest.payload);
+            if (data.length < IV_BYTES + TAG_BYTES) throw new CodecError("decode", "encrypted payload is truncated");
+            let payload: Buffer;
+            try {
+                const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+                decipher.setAAD(Buffer.from(kid, "utf8"));
+                decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+                payload = Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                throw new CodecError("decode", `decryption with key '${kid}' failed: ${message}`, undefined, err);
+            }
+            return inner.decode({...rest, payload: fromBytes(payload)});
+        },
+    };
+}
@@ -1,4 +1,5 @@
-import { Codec, Envelope } from "../core/types.js";
+import {Codec, Envelope, StreamFields} from "../core/types.js";
+import {fieldText} from "../core/fields.js";
 
 export function jsonCodec<T>(): Codec<T> {
     return {
@@ -6,9 +7,9 @@ export function jsonCodec<T>(): Codec<T> {
             headers: JSON.stringify(env.headers),
             payload: JSON.stringify(env.payload),
         }),
-        decode: (fields: Record<string, string>) => ({
-            headers: JSON.parse(fields["headers"]),
-            payload: JSON.parse(fields["payload"]),
+        decode: (fields: StreamFields) => ({
+            headers: JSON.parse(fieldText(fields["headers"])),
+            payload: JSON.parse(fieldText(fields["payload"])),
         }),
     };
 }
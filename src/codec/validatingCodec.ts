@@ -0,0 +1,64 @@
+import {Codec, Envelope, StreamFields} from "../core/types.js";
+import {CodecError} from "./codecError.js";
+
+// Standard Schema v1 (https://standardschema.dev), implemented by zod 3.24+, valibot 1.0+ and arktype.
+type StandardSchemaLike<T> = {
+    "~standard": {
+        validate(value: unknown): { value: T; issues?: undefined } | { issues: ReadonlyArray<{ message: string }> }
+            | Promise<unknown>;
+    };
+};
+
+// Anything that returns the validated payload or throws:
+//   zodSchema                          (has .parse)
+//   valibotSchema / zodSchema          (Standard Schema)
+//   (value) => v.parse(schema, value)  (valibot < 1.0)
+//   (value) => { if (!isJob(value)) throw new Error("not a job"); return value; }
+export type Validator<T> = ((value: unknown) => T) | { parse(value: unknown): T } | StandardSchemaLike<T>;
+
+function runValidator<T>(validator: Validator<T>, value: unknown, op: "encode" | "decode"): T {
+    if (typeof validator === "function") return guard(() => validator(value), op);
+    if ("~standard" in validator) {
+        const result = validator["~standard"].validate(value);
+        if (result instanceof Promise) throw new CodecError(op, "async validators are not supported");
+        const outcome = result as { value?: T; issues?: ReadonlyArray<{ message: string }> };
+        if (outcome.issues) {
+            throw new CodecError(op, `payload failed validation: ${outcome.issues.map((i) => i.message).join("; ")}`, outcome.issues);
+        }
+        return outcome.value as T;
+    }
+    return guard(() => validator.parse(value), op);
+}
+
+function guard<T>(fn: () => T, op: "encode" | "decode"): T {
+    try {
+        return fn();
+    } catch (err) {
+        if (err instanceof CodecError) throw err;
+        const message = err instanceof Error ? err.message : String(err);
+        // zod errors carry `issues`; other validators just get their message kept
+        throw new CodecError(op, `payload failed validation: ${message}`, (err as { issues?: unknown })?.issues, err);
+    }
+}
+
+/**
+ * Wraps a codec so payloads are checked on the way in and out: `encode` rejects an invalid payload before
+ * it reaches the stream, `decode` rejects one a misbehaving producer wrote. Both throw CodecError; the
+ * consumer dead-letters decode failures with the raw fields. The validator's output replaces the payload,
+ * so transforms and defaults apply.
+ */
+export function validatingCodec<T>(inner: Codec<unknown>, validator: Validator<T>): Codec<T> {
+    return {
+        encode: (env: Envelope<T>) => inner.encode({...env, payload: runValidator(validator, env.payload, "encode")}),
+        decode: (fields: StreamFields) => {
+            let env: Envelope<unknown>;
+            try {
+                env = inner.decode(fields);
+            } catch (err) {
+                if (err instanceof CodecError) throw err;
+                throw new CodecError("decode", err instanceof Error ? err.message : String(err), undefined, err);
+            }
+            return {...env, payload: runValidator(validator, env.payload, "decode")};
+        },
+    };
+}
@@ -0,0 +1,48 @@
+import {Codec, Envelope, MessageHeaders, StreamFields} from "../core/types.js";
+import {CodecError} from "./codecError.js";
+
+// Turns a payload of one version into the next: upcasters[0] maps v1 → v2, upcasters[1] v2 → v3, ...
+// The payload arrives as `unknown`: whatever an older producer wrote, so narrow it before use.
+export type Upcaster = (payload: unknown, headers: MessageHeaders) => unknown;
+
+export type VersionedCodecOpts = {
+    // One chain for every message type, or a chain per `headers.type` (types without one stay at version 1).
+    upcasters: Upcaster[] | Record<string, Upcaster[]>;
+};
+
+/**
+ * Stamps `headers.version` on encode and upcasts older payloads on decode, so messages written by earlier
+ * code (in the stream, the retry ZSET or the DLQ) arrive as the current `T`. The current version is the
+ * chain length + 1; a message without a version is version 1. A message newer than this codec knows (an old
+ * deploy reading a new message) fails with a CodecError.
+ */
+export function versionedCodec<T>(inner: Codec<unknown>, opts: VersionedCodecOpts): Codec<T> {
+    const chainFor = (type: string): Upcaster[] =>
+        Array.isArray(opts.upcasters) ? opts.upcasters : opts.upcasters[type] ?? [];
+
+    return {
+        encode: (env: Envelope<T>) => inner.encode({
+            ...env,
+            headers: {...env.headers, version: chainFor(env.headers.type).length + 1},
+        }),
+        decode: (fields: StreamFields) => {
+            const env = inner.decode(fields);
+            const chain = chainFor(env.headers.type);
+            const current = chain.length + 1;
+            let version = env.headers.version ?? 1;
+            if (!Number.isInteger(version) || version < 1 || version > current) {
+                throw new CodecError("decode", `'${env.headers.type}' version ${version} is not supported (current is ${current})`);
+            }
+            let payload = env.payload;
+            for (; version < current; version++) {
+                try {
+                    payload = chain[version - 1](payload, env.headers);
+                } catch (err) {
+                    const message = err instanceof Error ? err.message : String(err);
+                    throw new CodecError("decode", `upcasting '${env.headers.type}' v${version} → v${version + 1} failed: ${message}`, undefined, err);
+                }
+            }
+            return {headers: {...env.headers, version: current}, payload: payload as T};
+        },
+    };
+}
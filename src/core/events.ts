@@ -0,0 +1,47 @@
+export interface EventSource<Events extends object> {
+    // Returns a function that removes the listener again.
+    on<K extends keyof Events & string>(event: K, listener: (payload: Events[K]) => void): () => void;
+
+    off<K extends keyof Events & string>(event: K, listener: (payload: Events[K]) => void): void;
+}
+
+export interface Emitter<Events extends object> extends EventSource<Events> {
+    emit<K extends keyof Events & string>(event: K, payload: Events[K]): void;
+}
+
+/**
+ * Synchronous typed emitter. A throwing listener is reported to `onListenerError` and does not stop the
+ * other listeners or the component that emitted.
+ */
+export function makeEmitter<Events extends object>(
+    onListenerError: (event: string, err: unknown) => void = () => {
+    }
+): Emitter<Events> {
+    const listeners: { [K in keyof Events]?: Set<(payload: Events[K]) => void> } = Object.create(null);
+
+    const emitter: Emitter<Events> = {
+        on(event, listener) {
+            const set = listeners[event] ?? new Set();
+            listeners[event] = set;
+            set.add(listener);
+            return () => emitter.off(event, listener);
+        },
+
+        off(event, listener) {
+            listeners[event]?.delete(listener);
+        },
+
+        emit(event, payload) {
+            const set = listeners[event];
+            if (!set) return;
+            for (const listener of [...set]) {
+                try {
+                    listener(payload);
+                } catch (err) {
+                    onListenerError(event, err);
+                }
+            }
+        },
+    };
+    return emitter;
+}
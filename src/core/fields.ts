@@ -0,0 +1,51 @@
+import {isUtf8} from "node:buffer";
+import {FieldValue, StreamFields} from "./types.js";
+
+// Names of the fields toJsonFields stored as base64, comma separated.
+export const BINARY_FIELDS_MARKER = "__binary";
+
+export function fieldText(value: FieldValue): string;
+export function fieldText(value: FieldValue | undefined): string | undefined;
+export function fieldText(value: FieldValue | undefined): string | undefined {
+    return Buffer.isBuffer(value) ? value.toString("utf8") : value;
+}
+
+export function fieldBytes(value: FieldValue): Buffer {
+    return Buffer.isBuffer(value) ? value : Buffer.from(value, "utf8");
+}
+
+// Raw bytes read with Decoder.Bytes: text where it is valid UTF-8 (lossless either way), Buffer otherwise.
+export function fromBytes(value: Buffer): FieldValue {
+    return isUtf8(value) ? value.toString("utf8") : value;
+}
+
+/**
+ * For fields that travel inside JSON (retry ZSET members, parked ordering members, scheduled sends): Buffers
+ * become base64 and are listed under BINARY_FIELDS_MARKER. Scripts XADD such fields as they are, and clients
+ * undo it with restoreFields when reading entries back, so code above the client never sees the marker.
+ */
+export function toJsonFields(fields: StreamFields): Record<string, string> {
+    const out: Record<string, string> = {};
+    const binary: string[] = [];
+    for (const [name, value] of Object.entries(fields)) {
+        if (Buffer.isBuffer(value)) {
+            out[name] = value.toString("base64");
+            binary.push(name);
+        } else {
+            out[name] = value;
+        }
+    }
+    if (binary.length > 0) out[BINARY_FIELDS_MARKER] = binary.join(",");
+    return out;
+}
+
+export function restoreFields(fields: StreamFields): StreamFields {
+    const marker = fields[BINARY_FIELDS_MARKER];
+    if (marker === undefined) return fields;
+    const {[BINARY_FIELDS_MARKER]: _marker, ...out} = fields;
+    for (const name of fieldText(marker).split(",")) {
+        const value = out[name];
+        if (value !== undefined) out[name] = Buffer.from(fieldText(value), "base64");
+    }
+    return out;
+}
@@ -1,4 +1,5 @@
-import {ConditionalSet, Decoder, IGlideKitClient, XReadGroupResult} from "./types.js";
+import {ConditionalSet, Decoder, FieldValue, IGlideKitClient, StreamFields, XReadGroupResult} from "./types.js";
+import {fromBytes, restoreFields} from "./fields.js";
 import {
     Boundary,
     BaseClient,
@@ -30,7 +31,7 @@ export class GlideKitClient implements IGlideKitClient {
 
     async invokeScript(script: Script, options?: {
         keys?: string[];
-        args?: string[];
+        args?: FieldValue[];
     }): Promise<GlideReturnType> {
         const client = await this.createdClient;
         return await client.invokeScript(script, options);
@@ -52,11 +53,11 @@ export class GlideKitClient implements IGlideKitClient {
         return await client.xack(stream, group, ids);
     }
 
-    async xadd(stream: string, fields: Record<string, string>, opts: {
+    async xadd(stream: string, fields: StreamFields, opts: {
         id?: string
     } | undefined): Promise<string | null> {
         const client = await this.createdClient;
-        const values: [string, string][] = Object.entries(fields).map(([k, v]) => [k, v]);
+        const values: [string, FieldValue][] = Object.entries(fields).map(([k, v]) => [k, v]);
         const result = await client.xadd(stream, values, opts);
         if (result) {
             return this.convertGlideString(result);
@@ -82,6 +83,7 @@ export class GlideKitClient implements IGlideKitClient {
         const result = await client.xreadgroup(group, consumer, keysAndIds, {
             block: blockMs,
             count,
+            decoder: Decoder.Bytes,
         });
 
         if (!result) return null;
@@ -89,17 +91,29 @@ export class GlideKitClient implements IGlideKitClient {
         result.forEach(({key, value}) => {
             const keyString = this.convertGlideString(key);
             Object.entries(value).forEach(([id, fields]) => {
-                const messageFields: Record<string, string> = {};
-                fields?.forEach(([fieldName, fieldValue]) => {
-                    const fieldNameString = this.convertGlideString(fieldName);
-                    messageFields[fieldNameString] = this.convertGlideString(fieldValue);
-                });
-                out.push({stream: keyString, messages: [{id, fields: messageFields}]});
+                out.push({stream: keyString, messages: [{id, fields: this.convertFields(fields ?? [])}]});
             })
         });
         return out;
     }
 
+    async xrange(
+        key: string,
+        start: string,
+        end: string,
+        opts?: { count?: number }
+    ): Promise<Array<{ id: string; fields: StreamFields }>> {
+        const client = await this.createdClient;
+        const result = await client.xrange(key, this.convertStringToBoundary(start),
+            this.convertStringToBoundary(end), {...opts, decoder: Decoder.Bytes});
+        return Object.entries(result ?? {}).map(([id, entries]) => ({id, fields: this.convertFields(entries)}));
+    }
+
+    async xdel(key: string, ids: string[]): Promise<number> {
+        const client = await this.createdClient;
+        return await client.xdel(key, ids);
+    }
+
     async xlen(key: string): Promise<number> {
         const client = await this.createdClient;
         return await client.xlen(key);
@@ -132,7 +146,12 @@ export class GlideKitClient implements IGlideKitClient {
     ): Promise<Array<{ score: number; member: string }>> {
         const client = await this.createdClient;
         const limit = opts?.limit ? {count: opts.limit, offset: 0} : undefined;
-        const result = await client.zrangeWithScores(key, {start: min, end: max, limit});
+        const result = await client.zrangeWithScores(key, {
+            type: "byScore",
+            start: min === -Infinity ? InfBoundary.NegativeInfinity : {value: min},
+            end: max === Infinity ? InfBoundary.PositiveInfinity : {value: max},
+            limit,
+        });
         return result.map(entry => {
             const member = this.convertGlideString(entry.element);
             const score = entry.score;
@@ -145,6 +164,17 @@ export class GlideKitClient implements IGlideKitClient {
         return await client.zrem(key, members);
     }
 
+    async ping(): Promise<string> {
+        // declared on GlideClient and GlideClusterClient rather than BaseClient
+        const client = await this.createdClient as BaseClient & { ping(): Promise<GlideString> };
+        return this.convertGlideString(await client.ping());
+    }
+
+    async zcard(key: string): Promise<number> {
+        const client = await this.createdClient;
+        return await client.zcard(key);
+    }
+
     async xgroupCreate(key: string, group: string, id: string, opts: {
         mkStream?: boolean;
         entriesRead?: string
@@ -203,6 +233,40 @@ export class GlideKitClient implements IGlideKitClient {
         return out;
     }
 
+    async xpendingSummary(key: string, group: string): Promise<{
+        count: number;
+        minId: string | null;
+        maxId: string | null;
+        consumers: Array<{ name: string; pending: number }>
+    }> {
+        const client = await this.createdClient;
+        const [count, minId, maxId, consumers] = await client.xpending(key, group);
+        return {
+            count: Number(count),
+            minId: minId === null ? null : this.convertGlideString(minId),
+            maxId: maxId === null ? null : this.convertGlideString(maxId),
+            // an empty PEL replies with nil here
+            consumers: (consumers ?? []).map(([name, pending]) => ({name: this.convertGlideString(name), pending: Number(pending)})),
+        };
+    }
+
+    async xinfoConsumers(key: string, group: string): Promise<Array<{
+        name: string;
+        pending: number;
+        idle: number;
+        inactive?: number
+    }>> {
+        const client = await this.createdClient;
+        const infoConsumers = await client.xinfoConsumers(key, group);
+        return infoConsumers.map((info) => ({
+            name: this.convertGlideString(info["name"] as GlideString),
+            pending: Number(info["pending"]),
+            idle: Number(info["idle"]),
+            // reported since Valkey 7.2
+            ...(info["inactive"] !== undefined ? {inactive: Number(info["inactive"])} : {}),
+        }));
+    }
+
     async xclaim(key: string,
                  group: string,
                  consumer: string,
@@ -210,24 +274,44 @@ export class GlideKitClient implements IGlideKitClient {
                  ids: string[],
                  opts?: { retrycount?: number; force?: boolean }): Promise<Array<{
         id: string;
-        fields: Record<string, string>
+        fields: StreamFields
     }>> {
         const client = await this.createdClient;
-        const xclaimOpts: StreamClaimOptions | undefined = opts ? {
-            retryCount: opts.retrycount,
-            isForce: opts.force,
-        } : undefined;
-        const result = await client.xclaim(key, group, consumer, minIdleMs, ids, xclaimOpts);
-        const out: { id: string; fields: Record<string, string> }[] = [];
-        for (const entry of Object.entries(result)) {
-            const fields: Record<string, string> = {};
-            for (const [fieldName, fieldValue] of entry[1]) {
-                const fieldNameString = this.convertGlideString(fieldName);
-                fields[fieldNameString] = this.convertGlideString(fieldValue);
-            }
-            out.push({id: entry[0], fields});
+        const xclaimOpts: StreamClaimOptions = {
+            retryCount: opts?.retrycount,
+            isForce: opts?.force,
+        };
+        const result = await client.xclaim(key, group, consumer, minIdleMs, ids, {...xclaimOpts, decoder: Decoder.Bytes});
+        return Object.entries(result).map(([id, entries]) => ({id, fields: this.convertFields(entries)}));
+    }
+
+    async xautoclaim(key: string,
+                     group: string,
+                     consumer: string,
+                     minIdleMs: number,
+                     start: string,
+                     opts?: { count?: number }): Promise<{
+        nextId: string;
+        entries: Array<{ id: string; fields: StreamFields }>;
+        deletedIds: string[]
+    }> {
+        const client = await this.createdClient;
+        const [nextId, claimed, deletedIds] = await client.xautoclaim(key, group, consumer, minIdleMs, start,
+            {...opts, decoder: Decoder.Bytes});
+        return {
+            nextId: this.convertGlideString(nextId),
+            entries: Object.entries(claimed).map(([id, entries]) => ({id, fields: this.convertFields(entries)})),
+            deletedIds: (deletedIds ?? []).map((id) => this.convertGlideString(id)),
+        };
+    }
+
+    // Entry fields are read with Decoder.Bytes so binary values survive; see fromBytes and restoreFields.
+    private convertFields(entries: [GlideString, GlideString][]): StreamFields {
+        const fields: StreamFields = {};
+        for (const [fieldName, fieldValue] of entries) {
+            fields[this.convertGlideString(fieldName)] = typeof fieldValue === "string" ? fieldValue : fromBytes(fieldValue as Buffer);
         }
-        return out;
+        return restoreFields(fields);
     }
 
     private convertGlideString(string: GlideString) {
@@ -241,7 +325,10 @@ export class GlideKitClient implements IGlideKitClient {
             case "+":
                 return InfBoundary.PositiveInfinity
             default:
-                return {
+                return string.startsWith("(") ? {
+                    value: string.slice(1),
+                    isInclusive: false,
+                } : {
                     value: string,
                 }
         }
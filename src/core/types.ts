@@ -6,10 +6,17 @@ export type MessageHeaders = {
     type: string;
     attempt: number; // 0 on first try
     enqueuedAt: number; // epoch ms
-    traceId?: string;
+    traceId?: string; // trace-id part of traceparent
+    traceparent?: string; // W3C trace context of the span that last sent or retried this message
+    tracestate?: string;
     key?: string; // optional idempotency key
+    version?: number; // payload schema version, set by versionedCodec; absent means 1
 };
 
+// Stream entry fields. Values that are not valid UTF-8 (e.g. compressed payloads) are Buffers.
+export type FieldValue = string | Buffer;
+export type StreamFields = Record<string, FieldValue>;
+
 export type Envelope<T> = {
     headers: MessageHeaders;
     payload: T;
@@ -17,7 +24,7 @@ export type Envelope<T> = {
 
 export type RetryResult =
     | { action: "ack" }
-    | { action: "retry"; delayMs?: Millis }
+    | { action: "retry"; delayMs?: Millis; keepAttempt?: boolean }  // keepAttempt: re-run without counting an attempt
     | { action: "dlq"; reason?: string; meta?: unknown };
 
 export interface RetryPolicy {
@@ -25,8 +32,8 @@ export interface RetryPolicy {
 }
 
 export interface Codec<T> {
-    encode: (env: Envelope<T>) => Record<string, string>;
-    decode: (fields: Record<string, string>) => Envelope<T>;
+    encode: (env: Envelope<T>) => StreamFields;
+    decode: (fields: StreamFields) => Envelope<T>;
 }
 
 export interface LoggerLike {
@@ -74,14 +81,14 @@ export interface IGlideKitClient {
         script: Script,
         options?: {
             keys?: string[];
-            args?: string[];
+            args?: FieldValue[];
         }) => Promise<GlideReturnType>;
 
     set: (key: string, value: string, ttlSec?: number, conditionalSet?: ConditionalSet) => Promise<string | null>;
 
     xadd: (
         stream: string,
-        fields: Record<string, string>,
+        fields: StreamFields,
         opts?: { id?: string }
     ) => Promise<string | null>; // returns id
 
@@ -106,12 +113,34 @@ export interface IGlideKitClient {
 
     xlen: (key: string) => Promise<number>;
 
+    ping?: () => Promise<string>;
+
+    xrange?: (
+        stream: string,
+        start: string,           // "-", an id, or "(id" for exclusive
+        end: string,             // "+", an id, or "(id" for exclusive
+        opts?: { count?: number }
+    ) => Promise<Array<{ id: string; fields: StreamFields }>>;
+
+    xdel?: (stream: string, ids: string[]) => Promise<number>;
+
     xpending?: (
         stream: string,
         group: string,
         opts: { idle: number; count: number; start: string; end: string }
     ) => Promise<Array<{ id: string; consumer: string; idle: number; deliveries: number }>>;
 
+    // XPENDING summary form: total, lowest/highest pending id and count per consumer
+    xpendingSummary?: (
+        stream: string,
+        group: string
+    ) => Promise<{ count: number; minId: string | null; maxId: string | null; consumers: Array<{ name: string; pending: number }> }>;
+
+    xinfoConsumers?: (
+        stream: string,
+        group: string
+    ) => Promise<Array<{ name: string; pending: number; idle: number; inactive?: number }>>;
+
     xclaim?: (
         stream: string,
         group: string,
@@ -119,7 +148,19 @@ export interface IGlideKitClient {
         minIdleMs: number,
         ids: string[],
         opts?: { retrycount?: number }
-    ) => Promise<Array<{ id: string; fields: Record<string, string> }>>;
+    ) => Promise<Array<{ id: string; fields: StreamFields }>>;
+
+    // XAUTOCLAIM: claims up to `count` entries idle for minIdleMs scanning the PEL from `start`. nextId is the
+    // cursor for the next call ("0-0" once the whole PEL was scanned); deletedIds were pending but trimmed
+    // from the stream (Valkey 7+).
+    xautoclaim?: (
+        stream: string,
+        group: string,
+        consumer: string,
+        minIdleMs: number,
+        start: string,
+        opts?: { count?: number }
+    ) => Promise<{ nextId: string; entries: Array<{ id: string; fields: StreamFields }>; deletedIds: string[] }>;
 
     // Optional helpers for retries (ZSET based scheduler)
     zadd?: (
@@ -138,9 +179,11 @@ export interface IGlideKitClient {
 
     zrem?: (key: string, members: string[]) => Promise<number>;
 
+    zcard?: (key: string) => Promise<number>;
+
 }
 
 export type XReadGroupResult = Array<{
     stream: string;
-    messages: Array<{ id: string; fields: Record<string, string> }>;
+    messages: Array<{ id: string; fields: StreamFields }>;
 }>;
@@ -0,0 +1,277 @@
+import {Codec, FieldValue, IGlideKitClient, LoggerLike, MessageHeaders, StreamFields} from "../core/types.js";
+import {fieldText} from "../core/fields.js";
+import {dlqRequeueScript} from "../stream/scripts.js";
+import {PAYLOAD_REF_FIELD} from "../stream/claimCheck.js";
+import {DELIVERIES_FIELD} from "../stream/poison.js";
+
+export type MakeDlqManagerOpts<T> = {
+    client: IGlideKitClient;
+    stream: string;               // source stream; entries live in `${stream}:dlq`
+    codec?: Codec<T>;             // decodes entries (e.g. upcasts old versions) and encodes requeued messages; without one entries are requeued raw
+    dlqStream?: string;           // default `${stream}:dlq`
+    log?: LoggerLike;
+};
+
+export type DlqFilter = {
+    type?: string;
+    reason?: string | RegExp;     // a string must match exactly
+    from?: Date | number;         // dead-lettered at or after
+    to?: Date | number;           // dead-lettered at or before
+};
+
+export type DlqEntry<T> = {
+    id: string;
+    deadAt: number;               // epoch ms, taken from the entry id
+    headers?: MessageHeaders;
+    payload?: T;
+    error?: { reason?: string; meta?: unknown };
+    handledBy?: { group: string; consumer: string };
+    fields: StreamFields; // raw entry, e.g. for members the retry daemon could not decode
+};
+
+export type DlqPage<T> = {
+    entries: DlqEntry<T>[];
+    next?: string;                // pass as `after` to fetch the following page
+};
+
+export type DlqRequeueResult = { id: string; requeuedAs: string | null };
+
+export interface DlqManager<T> {
+    length(): Promise<number>;
+
+    list(opts?: DlqFilter & { count?: number; after?: string }): Promise<DlqPage<T>>;
+
+    peek(id: string): Promise<DlqEntry<T> | null>;
+
+    // Re-enqueues entries to the source stream with attempt reset to 0 and removes them from the DLQ. Entries the
+    // codec cannot decode go back with their raw fields; a replacement payload needs a codec.
+    requeue(ids: string | string[], opts?: {
+        payload?: T | ((payload: T | undefined, entry: DlqEntry<T>) => T)
+    }): Promise<DlqRequeueResult[]>;
+
+    delete(ids: string | string[]): Promise<number>;
+
+    // Deletes every entry matching the filter, or the whole DLQ without one.
+    purge(filter?: DlqFilter): Promise<number>;
+
+    exportNdjson(filter?: DlqFilter): AsyncGenerator<string>;
+}
+
+const PAGE_SIZE = 100;
+
+function parseJson(value: FieldValue | undefined): unknown {
+    if (value === undefined) return undefined;
+    try {
+        return JSON.parse(fieldText(value));
+    } catch {
+        return undefined;
+    }
+}
+
+function parseObject(value: FieldValue | undefined): Record<string, unknown> | undefined {
+    const parsed = parseJson(value);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed as Record<string, unknown> : undefined;
+}
+
+// Metadata written by something other than glide-kit may be malformed; such fields read as absent.
+function parseHeaders(value: FieldValue | undefined): MessageHeaders | undefined {
+    const parsed = parseObject(value);
+    if (typeof parsed?.type !== "string" || typeof parsed.attempt !== "number" || typeof parsed.enqueuedAt !== "number") {
+        return undefined;
+    }
+    return parsed as MessageHeaders;
+}
+
+function parseError(value: FieldValue | undefined): DlqEntry<unknown>["error"] {
+    const parsed = parseObject(value);
+    if (!parsed) return undefined;
+    return {reason: typeof parsed.reason === "string" ? parsed.reason : undefined, meta: parsed.meta};
+}
+
+function parseHandledBy(value: FieldValue | undefined): DlqEntry<unknown>["handledBy"] {
+    const parsed = parseObject(value);
+    if (typeof parsed?.group !== "string" || typeof parsed.consumer !== "string") return undefined;
+    return {group: parsed.group, consumer: parsed.consumer};
+}
+
+function toMs(value: Date | number): number {
+    return value instanceof Date ? value.getTime() : value;
+}
+
+export function makeDlqManager<T>(opts: MakeDlqManagerOpts<T>): DlqManager<T> {
+    const {client, stream, codec, log} = opts;
+    const dlqStream = opts.dlqStream ?? `${stream}:dlq`;
+
+    function requireRangeOps() {
+        if (!client.xrange || !client.xdel) throw new Error("DLQ management requires client.xrange and client.xdel");
+        return {xrange: client.xrange.bind(client), xdel: client.xdel.bind(client)};
+    }
+
+    // Through the codec where it can, so entries come back as the current T; raw JSON otherwise.
+    function decode(fields: StreamFields): { headers?: MessageHeaders; payload?: T; decoded: boolean } {
+        if (codec) {
+            try {
+                return {...codec.decode(fields), decoded: true};
+            } catch {
+                // fall through to the raw view
+            }
+        }
+        // unchecked: without a codec that can read it, the payload is whatever JSON the entry holds
+        return {headers: parseHeaders(fields.headers), payload: parseJson(fields.payload) as T | undefined, decoded: false};
+    }
+
+    function read(id: string, fields: StreamFields): { entry: DlqEntry<T>; decoded: boolean } {
+        const {headers, payload, decoded} = decode(fields);
+        const entry: DlqEntry<T> = {
+            id,
+            deadAt: Number(id.split("-")[0]),
+            headers,
+            payload,
+            error: parseError(fields.error),
+            handledBy: parseHandledBy(fields.handledBy),
+            fields,
+        };
+        return {entry, decoded};
+    }
+
+    function toEntry(id: string, fields: StreamFields): DlqEntry<T> {
+        return read(id, fields).entry;
+    }
+
+    // The entry as it was dead-lettered, minus the DLQ bookkeeping, so payloads the codec cannot read survive
+    // byte for byte. The carried delivery count goes too, so poison detection starts over. Null when there is
+    // nothing to requeue.
+    function rawFields(entry: DlqEntry<T>, headers: MessageHeaders): StreamFields | null {
+        const {error: _error, handledBy: _handledBy, [DELIVERIES_FIELD]: _deliveries, ...fields} = entry.fields;
+        if (fields.payload === undefined && fields[PAYLOAD_REF_FIELD] === undefined) return null;
+        return {...fields, headers: JSON.stringify(headers)};
+    }
+
+    function matches(entry: DlqEntry<T>, filter: DlqFilter): boolean {
+        if (filter.type !== undefined && entry.headers?.type !== filter.type) return false;
+        if (filter.reason !== undefined) {
+            const reason = entry.error?.reason ?? "";
+            if (typeof filter.reason === "string" ? reason !== filter.reason : !filter.reason.test(reason)) return false;
+        }
+        return true;
+    }
+
+    // Walks the DLQ in id order from `after` (exclusive), applying the time range server-side.
+    async function* scan(filter: DlqFilter = {}, after?: string): AsyncGenerator<DlqEntry<T>> {
+        const {xrange} = requireRangeOps();
+        const end = filter.to !== undefined ? String(toMs(filter.to)) : "+";
+        let start = after ? `(${after}` : filter.from !== undefined ? String(toMs(filter.from)) : "-";
+        for (; ;) {
+            const batch = await xrange(dlqStream, start, end, {count: PAGE_SIZE});
+            for (const {id, fields} of batch) {
+                const entry = toEntry(id, fields);
+                if (matches(entry, filter)) yield entry;
+            }
+            if (batch.length < PAGE_SIZE) return;
+            start = `(${batch[batch.length - 1].id}`;
+        }
+    }
+
+    async function readOne(id: string): Promise<{ entry: DlqEntry<T>; decoded: boolean } | null> {
+        const {xrange} = requireRangeOps();
+        const [found] = await xrange(dlqStream, id, id, {count: 1});
+        return found ? read(found.id, found.fields) : null;
+    }
+
+    async function peek(id: string): Promise<DlqEntry<T> | null> {
+        return (await readOne(id))?.entry ?? null;
+    }
+
+    async function deleteIds(ids: string[]): Promise<number> {
+        if (ids.length === 0) return 0;
+        const {xdel} = requireRangeOps();
+        return xdel(dlqStream, ids);
+    }
+
+    return {
+        async length() {
+            return client.xlen(dlqStream);
+        },
+
+        async list({count = 20, after, ...filter} = {}) {
+            const entries: DlqEntry<T>[] = [];
+            for await (const entry of scan(filter, after)) {
+                if (entries.length === count) {
+                    return {entries, next: entries[entries.length - 1].id};
+                }
+                entries.push(entry);
+            }
+            return {entries};
+        },
+
+        peek,
+
+        async requeue(ids, requeueOpts) {
+            const replacement = requeueOpts?.payload;
+            if (replacement !== undefined && !codec) throw new Error("dlq: requeueing with a replacement payload requires a codec");
+            const results: DlqRequeueResult[] = [];
+            for (const id of Array.isArray(ids) ? ids : [ids]) {
+                const found = await readOne(id);
+                if (!found?.entry.headers) {
+                    log?.warn("dlq: cannot requeue entry without headers", {dlqStream, id});
+                    results.push({id, requeuedAs: null});
+                    continue;
+                }
+                const {entry, decoded} = found;
+                const headers = {...entry.headers!, attempt: 0, enqueuedAt: Date.now()};
+                let fields: StreamFields | null;
+                if (replacement !== undefined) {
+                    const payload = typeof replacement === "function"
+                        ? (replacement as (payload: T | undefined, entry: DlqEntry<T>) => T)(entry.payload, entry)
+                        : replacement;
+                    fields = codec!.encode({headers, payload});
+                } else {
+                    // re-encoding a payload that did not decode would write `undefined` over it
+                    fields = decoded ? codec!.encode({headers, payload: entry.payload as T}) : rawFields(entry, headers);
+                }
+                if (!fields) {
+                    log?.warn("dlq: cannot requeue entry without a payload; pass a replacement", {dlqStream, id});
+                    results.push({id, requeuedAs: null});
+                    continue;
+                }
+                const args: FieldValue[] = [id];
+                for (const [key, value] of Object.entries(fields)) args.push(key, value);
+                const result = await client.invokeScript(dlqRequeueScript, {keys: [dlqStream, stream], args});
+                const requeuedAs = typeof result === "string" && result !== "" ? result : null;
+                log?.info("dlq: requeued", {dlqStream, id, requeuedAs});
+                results.push({id, requeuedAs});
+            }
+            return results;
+        },
+
+        async delete(ids) {
+            return deleteIds(Array.isArray(ids) ? ids : [ids]);
+        },
+
+        async purge(filter) {
+            if (!filter || Object.keys(filter).length === 0) {
+                const length = await client.xlen(dlqStream);
+                await client.del(dlqStream);
+                return length;
+            }
+            let removed = 0;
+            let batch: string[] = [];
+            for await (const entry of scan(filter)) {
+                batch.push(entry.id);
+                if (batch.length === PAGE_SIZE) {
+                    removed += await deleteIds(batch);
+                    batch = [];
+                }
+            }
+            return removed + await deleteIds(batch);
+        },
+
+        async* exportNdjson(filter) {
+            for await (const entry of scan(filter)) {
+                // raw fields only add noise when the entry decoded cleanly
+                const {fields, ...decoded} = entry;
+                yield JSON.stringify(entry.headers ? decoded : {...decoded, fields}) + "\n";
+            }
+        },
+    };
+}
@@ -1,8 +1,28 @@
 export * from './core/types.js';
+export * from './core/fields.js';
 export * from './core/glideKitClient'
+export * from './core/events.js';
 export * from './stream/producer.js';
 export * from './stream/consumer.js';
+export * from './stream/middleware.js';
+export * from './stream/progress.js';
+export * from './stream/claimCheck.js';
+export * from './stream/router.js';
 export * from './stream/retry.js';
 export * from './stream/retryDaemon.js';
 export * from './stream/pendingSweeper.js'
 export * from './codec/jsonCodec.js';
+export * from './codec/codecError.js';
+export * from './codec/validatingCodec.js';
+export * from './codec/versionedCodec.js';
+export * from './codec/compressedCodec.js';
+export * from './codec/encryptedCodec.js';
+export * from './scheduler/cronScheduler.js';
+export * from './dlq/dlqManager.js';
+export * from './metrics/metricsSink.js';
+export * from './metrics/prometheus.js';
+export * from './metrics/otel.js';
+export * from './tracing/tracer.js';
+export * from './tracing/otel.js';
+export * from './stats/queueStats.js';
+export * from './admin/adminServer.js';
@@ -0,0 +1,42 @@
+export type CounterName =
+    | "produced_total"
+    | "processed_total"
+    | "retry_scheduled_total"
+    | "dlq_total"
+    | "claimed_total";
+
+export type GaugeName = "in_flight" | "retry_queue_depth" | "pel_size";
+
+export type HistogramName = "handler_duration_ms";
+
+// stream, plus group/type/outcome where they apply
+export type MetricLabels = Record<string, string>;
+
+export interface MetricsSink {
+    increment: (name: CounterName, labels: MetricLabels, by?: number) => void;
+    gauge: (name: GaugeName, labels: MetricLabels, value: number) => void;
+    observe: (name: HistogramName, labels: MetricLabels, value: number) => void;
+}
+
+export const noopMetrics: MetricsSink = {
+    increment: () => {
+    },
+    gauge: () => {
+    },
+    observe: () => {
+    },
+};
+
+export const metricHelp: Record<CounterName | GaugeName | HistogramName, string> = {
+    produced_total: "Messages accepted by a producer (immediate and scheduled sends).",
+    processed_total: "Messages handled by a consumer, by outcome (ack, retry, dlq, error).",
+    retry_scheduled_total: "Retries scheduled by a consumer.",
+    dlq_total: "Messages dead-lettered by a consumer or pending sweeper.",
+    claimed_total: "Pending entries claimed from idle consumers.",
+    in_flight: "Handlers currently running.",
+    retry_queue_depth: "Members in the retry zset after the last promotion tick.",
+    pel_size: "Entries in the consumer group's pending entries list.",
+    handler_duration_ms: "Handler run time in milliseconds.",
+};
+
+export const defaultDurationBuckets = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10_000];
@@ -0,0 +1,65 @@
+import {MetricLabels, metricHelp, MetricsSink} from "./metricsSink.js";
+
+// The parts of an OpenTelemetry `Meter` (@opentelemetry/api) the adapter uses, so glide-kit does not
+// depend on the API package; pass `metrics.getMeter("glide-kit")` as is.
+export interface MeterLike {
+    createCounter(name: string, options?: { description?: string; unit?: string }): {
+        add(value: number, attributes?: MetricLabels): void;
+    };
+
+    createHistogram(name: string, options?: { description?: string; unit?: string }): {
+        record(value: number, attributes?: MetricLabels): void;
+    };
+
+    createObservableGauge(name: string, options?: { description?: string; unit?: string }): {
+        addCallback(callback: (result: { observe(value: number, attributes?: MetricLabels): void }) => void): void;
+    };
+}
+
+export type OtelMetricsSinkOpts = {
+    prefix?: string;              // default "glidekit."
+};
+
+/**
+ * Reports to an OpenTelemetry Meter: counters and the duration histogram map to their OTel instruments,
+ * gauges to observable gauges that report the last value set per label set.
+ */
+export function otelMetricsSink(meter: MeterLike, opts: OtelMetricsSinkOpts = {}): MetricsSink {
+    const prefix = opts.prefix ?? "glidekit.";
+    const counters = new Map<string, ReturnType<MeterLike["createCounter"]>>();
+    const histograms = new Map<string, ReturnType<MeterLike["createHistogram"]>>();
+    const gauges = new Map<string, Map<string, { labels: MetricLabels; value: number }>>();
+
+    return {
+        increment(name, labels, by = 1) {
+            let counter = counters.get(name);
+            if (!counter) {
+                counter = meter.createCounter(prefix + name, {description: metricHelp[name]});
+                counters.set(name, counter);
+            }
+            counter.add(by, labels);
+        },
+
+        gauge(name, labels, value) {
+            let series = gauges.get(name);
+            if (!series) {
+                const current = new Map<string, { labels: MetricLabels; value: number }>();
+                meter.createObservableGauge(prefix + name, {description: metricHelp[name]}).addCallback((result) => {
+                    for (const entry of current.values()) result.observe(entry.value, entry.labels);
+                });
+                gauges.set(name, current);
+                series = current;
+            }
+            series.set(JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))), {labels: {...labels}, value});
+        },
+
+        observe(name, labels, value) {
+            let histogram = histograms.get(name);
+            if (!histogram) {
+                histogram = meter.createHistogram(prefix + name, {description: metricHelp[name], unit: "ms"});
+                histograms.set(name, histogram);
+            }
+            histogram.record(value, labels);
+        },
+    };
+}
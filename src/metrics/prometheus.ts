@@ -0,0 +1,130 @@
+import {defaultDurationBuckets, MetricLabels, metricHelp, MetricsSink} from "./metricsSink.js";
+
+export type PrometheusRegistryOpts = {
+    prefix?: string;              // default "glidekit_"
+    buckets?: number[];           // handler_duration_ms upper bounds, default 5ms..10s
+};
+
+export interface PrometheusRegistry extends MetricsSink {
+    contentType: string;
+
+    // Prometheus text exposition format (0.0.4), ready to serve from /metrics.
+    render(): string;
+
+    reset(): void;
+}
+
+type Series = { labels: MetricLabels; value: number };
+type HistogramSeries = { labels: MetricLabels; counts: number[]; sum: number; count: number };
+
+function labelKey(labels: MetricLabels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels, extra?: [string, string]): string {
+    const pairs = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+    if (extra) pairs.push(extra);
+    if (pairs.length === 0) return "";
+    return `{${pairs.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+function formatNumber(value: number): string {
+    if (value === Infinity) return "+Inf";
+    if (value === -Infinity) return "-Inf";
+    return String(value);
+}
+
+/**
+ * In-process metrics registry that renders the Prometheus text format, with no client library needed.
+ * Pass it as `metrics` to producers, consumers, retry daemons and sweepers, and serve `render()`.
+ */
+export function makePrometheusRegistry(opts: PrometheusRegistryOpts = {}): PrometheusRegistry {
+    const prefix = opts.prefix ?? "glidekit_";
+    const buckets = [...(opts.buckets ?? defaultDurationBuckets)].sort((a, b) => a - b);
+    const counters = new Map<string, Map<string, Series>>();
+    const gauges = new Map<string, Map<string, Series>>();
+    const histograms = new Map<string, Map<string, HistogramSeries>>();
+
+    function seriesOf<S>(families: Map<string, Map<string, S>>, name: string): Map<string, S> {
+        let family = families.get(name);
+        if (!family) {
+            family = new Map();
+            families.set(name, family);
+        }
+        return family;
+    }
+
+    function header(lines: string[], name: string, type: string) {
+        const help = metricHelp[name as keyof typeof metricHelp] ?? name;
+        lines.push(`# HELP ${prefix}${name} ${help}`, `# TYPE ${prefix}${name} ${type}`);
+    }
+
+    return {
+        contentType: "text/plain; version=0.0.4; charset=utf-8",
+
+        increment(name, labels, by = 1) {
+            const family = seriesOf(counters, name);
+            const key = labelKey(labels);
+            const series = family.get(key);
+            if (series) series.value += by;
+            else family.set(key, {labels: {...labels}, value: by});
+        },
+
+        gauge(name, labels, value) {
+            seriesOf(gauges, name).set(labelKey(labels), {labels: {...labels}, value});
+        },
+
+        observe(name, labels, value) {
+            const family = seriesOf(histograms, name);
+            const key = labelKey(labels);
+            let series = family.get(key);
+            if (!series) {
+                series = {labels: {...labels}, counts: buckets.map(() => 0), sum: 0, count: 0};
+                family.set(key, series);
+            }
+            for (let i = 0; i < buckets.length; i++) {
+                if (value <= buckets[i]) series.counts[i]++;
+            }
+            series.sum += value;
+            series.count++;
+        },
+
+        render() {
+            const lines: string[] = [];
+            for (const [name, family] of counters) {
+                header(lines, name, "counter");
+                for (const {labels, value} of family.values()) {
+                    lines.push(`${prefix}${name}${formatLabels(labels)} ${formatNumber(value)}`);
+                }
+            }
+            for (const [name, family] of gauges) {
+                header(lines, name, "gauge");
+                for (const {labels, value} of family.values()) {
+                    lines.push(`${prefix}${name}${formatLabels(labels)} ${formatNumber(value)}`);
+                }
+            }
+            for (const [name, family] of histograms) {
+                header(lines, name, "histogram");
+                for (const series of family.values()) {
+                    buckets.forEach((le, i) => {
+                        lines.push(`${prefix}${name}_bucket${formatLabels(series.labels, ["le", formatNumber(le)])} ${series.counts[i]}`);
+                    });
+                    lines.push(`${prefix}${name}_bucket${formatLabels(series.labels, ["le", "+Inf"])} ${series.count}`);
+                    lines.push(`${prefix}${name}_sum${formatLabels(series.labels)} ${formatNumber(series.sum)}`);
+                    lines.push(`${prefix}${name}_count${formatLabels(series.labels)} ${series.count}`);
+                }
+            }
+            return lines.length ? lines.join("\n") + "\n" : "";
+        },
+
+        reset() {
+            counters.clear();
+            gauges.clear();
+            histograms.clear();
+        },
+    };
+}
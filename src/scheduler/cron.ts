@@ -0,0 +1,170 @@
+// Minimal cron expression support for startCronScheduler.
+// Accepts 5 fields (minute hour day-of-month month day-of-week) or 6 with leading seconds.
+// Each field supports `*`, `a`, `a-b`, lists, `/step` and month/weekday names; 7 is also Sunday.
+// As in classic cron, when both day-of-month and day-of-week are restricted either may match.
+// A wall-clock time a DST spring-forward skips does not fire; one a fall-back repeats fires once, on its first
+// occurrence.
+
+export type CronSpec = {
+    seconds: Set<number>;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    domRestricted: boolean;
+    dowRestricted: boolean;
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+function parseValue(raw: string, names?: string[], namesOffset = 0): number {
+    const upper = raw.toUpperCase();
+    const named = names?.indexOf(upper) ?? -1;
+    if (named >= 0) return named + namesOffset;
+    if (!/^\d+$/.test(raw)) throw new Error(`invalid cron value '${raw}'`);
+    return Number(raw);
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], namesOffset = 0): Set<number> {
+    const out = new Set<number>();
+    for (const part of field.split(",")) {
+        const [rangePart, stepPart] = part.split("/");
+        const step = stepPart === undefined ? 1 : Number(stepPart);
+        if (!Number.isInteger(step) || step < 1) throw new Error(`invalid cron step in '${part}'`);
+
+        let start: number;
+        let end: number;
+        if (rangePart === "*") {
+            start = min;
+            end = max;
+        } else if (rangePart.includes("-")) {
+            const [a, b] = rangePart.split("-");
+            start = parseValue(a, names, namesOffset);
+            end = parseValue(b, names, namesOffset);
+        } else {
+            start = parseValue(rangePart, names, namesOffset);
+            end = stepPart === undefined ? start : max;
+        }
+        if (start < min || end > max || start > end) {
+            throw new Error(`cron field '${part}' out of range ${min}-${max}`);
+        }
+        for (let v = start; v <= end; v += step) out.add(v);
+    }
+    return out;
+}
+
+export function parseCron(expr: string): CronSpec {
+    const fields = expr.trim().split(/\s+/);
+    if (fields.length !== 5 && fields.length !== 6) {
+        throw new Error(`cron expression must have 5 or 6 fields: '${expr}'`);
+    }
+    const [sec, min, hour, dom, month, dow] = fields.length === 6 ? fields : ["0", ...fields];
+    const daysOfWeek = parseField(dow, 0, 7, DAY_NAMES);
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+    return {
+        seconds: parseField(sec, 0, 59),
+        minutes: parseField(min, 0, 59),
+        hours: parseField(hour, 0, 23),
+        daysOfMonth: parseField(dom, 1, 31),
+        months: parseField(month, 1, 12, MONTH_NAMES, 1),
+        daysOfWeek,
+        domRestricted: dom !== "*",
+        dowRestricted: dow !== "*",
+    };
+}
+
+type WallClock = { month: number; day: number; weekday: number; hour: number; minute: number; second: number };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClock(epochMs: number, timeZone: string): WallClock {
+    let fmt = formatters.get(timeZone);
+    if (!fmt) {
+        fmt = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            month: "numeric",
+            day: "numeric",
+            weekday: "short",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+        });
+        formatters.set(timeZone, fmt);
+    }
+    const parts: Record<string, string> = {};
+    for (const {type, value} of fmt.formatToParts(epochMs)) parts[type] = value;
+    return {
+        month: Number(parts.month),
+        day: Number(parts.day),
+        weekday: DAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+    };
+}
+
+function dayMatches(spec: CronSpec, wc: WallClock): boolean {
+    if (!spec.months.has(wc.month)) return false;
+    const dom = spec.daysOfMonth.has(wc.day);
+    const dow = spec.daysOfWeek.has(wc.weekday);
+    if (spec.domRestricted && spec.dowRestricted) return dom || dow;
+    return dom && dow;
+}
+
+// A fall-back repeats an hour of wall-clock time (half an hour on Lord Howe Island).
+const FALL_BACK_SHIFTS_MS = [3600_000, 1800_000];
+
+function sameWallClock(a: WallClock, b: WallClock): boolean {
+    return a.month === b.month && a.day === b.day && a.hour === b.hour && a.minute === b.minute && a.second === b.second;
+}
+
+// Whether the wall-clock time at `t` already happened earlier that day, because a fall-back repeated it.
+function repeated(t: number, wc: WallClock, timeZone: string): boolean {
+    return FALL_BACK_SHIFTS_MS.some((shift) => sameWallClock(wallClock(t - shift, timeZone), wc));
+}
+
+/**
+ * Returns the first matching instant strictly after `afterMs`, evaluated on the wall clock of `timeZone`.
+ * Skips ahead by hour/minute while the coarser fields do not match, so this stays cheap for sparse schedules.
+ */
+export function nextCronTick(spec: CronSpec, afterMs: number, timeZone = "UTC"): number {
+    let t = Math.floor(afterMs / 1000) * 1000 + 1000;
+    const limit = afterMs + 5 * 366 * 24 * 3600_000;
+    while (t <= limit) {
+        const wc = wallClock(t, timeZone);
+        if (!dayMatches(spec, wc) || !spec.hours.has(wc.hour)) {
+            // jump to the next local hour boundary
+            t += ((60 - wc.minute) * 60 - wc.second) * 1000;
+        } else if (!spec.minutes.has(wc.minute)) {
+            t += (60 - wc.second) * 1000;
+        } else if (!spec.seconds.has(wc.second) || repeated(t, wc, timeZone)) {
+            t += 1000;
+        } else {
+            return t;
+        }
+    }
+    throw new Error("cron expression never matches");
+}
+
+// The last matching instant strictly before `beforeMs`; nextCronTick walking backwards.
+export function prevCronTick(spec: CronSpec, beforeMs: number, timeZone = "UTC"): number {
+    let t = Math.ceil(beforeMs / 1000) * 1000 - 1000;
+    const limit = beforeMs - 5 * 366 * 24 * 3600_000;
+    while (t >= limit) {
+        const wc = wallClock(t, timeZone);
+        if (!dayMatches(spec, wc) || !spec.hours.has(wc.hour)) {
+            // jump to the last second of the previous local hour
+            t -= (wc.minute * 60 + wc.second + 1) * 1000;
+        } else if (!spec.minutes.has(wc.minute)) {
+            t -= (wc.second + 1) * 1000;
+        } else if (!spec.seconds.has(wc.second) || repeated(t, wc, timeZone)) {
+            t -= 1000;
+        } else {
+            return t;
+        }
+    }
+    throw new Error("cron expression never matches");
+}
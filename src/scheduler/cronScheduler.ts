@@ -0,0 +1,184 @@
+import {Codec, IGlideKitClient} from "../core/types.js";
+import {jsonCodec} from "../codec/jsonCodec.js";
+import {makeProducer, Producer} from "../stream/producer.js";
+import {cronMarkRunScript} from "../stream/scripts.js";
+import {CronSpec, prevCronTick, parseCron} from "./cron.js";
+
+export type CronJob<T = unknown> = {
+    name: string;                 // unique; used for the dedupe and last-run keys
+    cron?: string;                // 5 or 6 (with seconds) field expression
+    everyMs?: number;             // fixed interval instead of `cron`, aligned to the epoch
+    timezone?: string;            // IANA zone for `cron`, default UTC
+    stream: string;
+    type?: string;                // default: name
+    payload: T | ((tick: Date) => T);
+    codec?: Codec<T>;             // default jsonCodec
+};
+
+export type CatchUpPolicy =
+    | "none"      // drop ticks that were missed by more than graceMs
+    | "latest"    // enqueue only the most recent missed tick
+    | "all";      // enqueue every missed tick, up to maxCatchUp
+
+// Jobs: the payload type of each job, e.g. [{ at: number }, Report]; usually inferred from `jobs`.
+export type CronSchedulerOpts<Jobs extends unknown[] = unknown[]> = {
+    client: IGlideKitClient;
+    jobs: [...{ [K in keyof Jobs]: CronJob<Jobs[K]> }];
+    catchUp?: CatchUpPolicy;      // default "latest"
+    maxCatchUp?: number;          // default 100
+    graceMs?: number;             // a tick this late still counts as on time, default 30s
+    pollMs?: number;              // default 1000
+    dedupeTtlSec?: number;        // how long per-tick idempotency keys live, default 7 days
+    log?: { info: Function; warn: Function; error: Function; debug: Function };
+};
+
+export type CronScheduler = {
+    start(): void;
+    stop(): Promise<void>;
+    isRunning(): boolean;
+    lastRun(name: string): Promise<Date | null>;
+};
+
+type ScheduledJob = {
+    job: CronJob<unknown>;
+    spec?: CronSpec;
+    producer: Producer<unknown>;
+    cursor?: number;              // last tick this instance has handled
+};
+
+/**
+ * Enqueues jobs on cron expressions or fixed intervals. Every instance evaluates every tick, and each
+ * tick is sent with the idempotency key `<name>:<tick>` through the producer's idempotency script, so
+ * exactly one copy reaches the stream no matter how many instances run. The newest handled tick is
+ * kept in `cron:<name>:lastRun` and is where a restarted instance resumes (subject to `catchUp`).
+ */
+export function startCronScheduler<Jobs extends unknown[]>(opts: CronSchedulerOpts<Jobs>): CronScheduler {
+    const jobs = opts.jobs as CronJob<unknown>[];
+    const {
+        client,
+        catchUp = "latest",
+        maxCatchUp = 100,
+        graceMs = 30_000,
+        pollMs = 1000,
+        dedupeTtlSec = 7 * 24 * 3600,
+        log = {info: () => {}, warn: () => {}, error: () => {}, debug: () => {}},
+    } = opts;
+
+    const names = new Set<string>();
+    const scheduled: ScheduledJob[] = jobs.map((job) => {
+        if (names.has(job.name)) throw new Error(`duplicate cron job name '${job.name}'`);
+        names.add(job.name);
+        if ((job.cron === undefined) === (job.everyMs === undefined)) {
+            throw new Error(`cron job '${job.name}' needs exactly one of cron or everyMs`);
+        }
+        if (job.everyMs !== undefined && job.everyMs <= 0) {
+            throw new Error(`cron job '${job.name}' everyMs must be positive`);
+        }
+        return {
+            job,
+            spec: job.cron !== undefined ? parseCron(job.cron) : undefined,
+            producer: makeProducer({
+                client,
+                stream: job.stream,
+                codec: job.codec ?? jsonCodec(),
+                defaultType: job.type ?? job.name,
+                idempotency: {ttlSec: dedupeTtlSec},
+            }),
+        };
+    });
+
+    let running = false;
+    let loopPromise: Promise<void> | null = null;
+
+    const lastRunKey = (name: string) => `cron:${name}:lastRun`;
+
+    // The latest tick strictly before `beforeMs`.
+    function prevTick(entry: ScheduledJob, beforeMs: number): number {
+        if (entry.spec) return prevCronTick(entry.spec, beforeMs, entry.job.timezone);
+        const every = entry.job.everyMs!;
+        return (Math.ceil(beforeMs / every) - 1) * every;
+    }
+
+    // Ticks within graceMs of now are on time; older ones were missed and go by the catchUp policy.
+    function wanted(tick: number, now: number, firing: number): boolean {
+        if (firing >= maxCatchUp) return false;
+        if (tick >= now - graceMs) return true;
+        return catchUp === "all" || (catchUp === "latest" && firing === 0);
+    }
+
+    async function runJob(entry: ScheduledJob, now: number) {
+        const {job} = entry;
+        if (entry.cursor === undefined) {
+            const stored = await client.get(lastRunKey(job.name));
+            entry.cursor = stored ? Number(stored) : now;
+        }
+
+        // Walks back from now and stops at the first tick that will not fire, so a long outage costs no more
+        // than the ticks that do.
+        let newest: number | undefined;
+        let skipped = false;
+        const fire: number[] = [];
+        for (let t = prevTick(entry, now + 1); t > entry.cursor; t = prevTick(entry, t)) {
+            newest ??= t;
+            if (!wanted(t, now, fire.length)) {
+                skipped = true;
+                break;
+            }
+            fire.unshift(t);
+        }
+        if (newest === undefined) return;
+
+        for (const tick of fire) {
+            const payload = typeof job.payload === "function" ? job.payload(new Date(tick)) : job.payload;
+            const id = await entry.producer.send(payload, {key: `${job.name}:${tick}`});
+            log.debug("cron: tick enqueued", {name: job.name, tick, id});
+        }
+        if (skipped) log.info("cron: missed ticks skipped", {name: job.name, after: entry.cursor, fired: fire.length});
+
+        entry.cursor = newest;
+        await client.invokeScript(cronMarkRunScript, {keys: [lastRunKey(job.name)], args: [String(entry.cursor)]});
+    }
+
+    async function tickOnce() {
+        const now = Date.now();
+        for (const entry of scheduled) {
+            try {
+                await runJob(entry, now);
+            } catch (err) {
+                log.error("cron: job error", {name: entry.job.name, err});
+            }
+        }
+    }
+
+    async function loop() {
+        running = true;
+        try {
+            while (running) {
+                await tickOnce();
+                await new Promise((r) => setTimeout(r, pollMs));
+            }
+        } finally {
+            running = false;
+        }
+    }
+
+    return {
+        start() {
+            if (loopPromise) return;
+            loopPromise = loop();
+        },
+        async stop() {
+            if (!loopPromise) return;
+            running = false;
+            await loopPromise;
+            loopPromise = null;
+        },
+        isRunning() {
+            return !!loopPromise && running;
+        },
+        async lastRun(name: string) {
+            const stored = await client.get(lastRunKey(name));
+            return stored ? new Date(Number(stored)) : null;
+        },
+    };
+}
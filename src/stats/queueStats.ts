@@ -0,0 +1,118 @@
+import {IGlideKitClient} from "../core/types.js";
+
+export type GetQueueStatsOpts = {
+    client: IGlideKitClient;
+    stream: string;
+    group?: string;               // default: every group on the stream
+    retryZset?: string;           // default `${stream}:retry`
+    dlqStream?: string;           // default `${stream}:dlq`
+};
+
+export type ConsumerStats = {
+    name: string;
+    pending: number;
+    idleMs: number;               // since the consumer last read or claimed
+};
+
+export type GroupStats = {
+    name: string;
+    consumers: ConsumerStats[];
+    pending: number;
+    lag: number | null;           // entries not yet delivered to the group; null when the server cannot tell
+    lastDeliveredId: string | null;
+    oldestPending: {
+        id: string;
+        ageMs: number;            // since the entry was added to the stream
+        idleMs: number;           // since it was last delivered
+        deliveries: number;
+    } | null;
+};
+
+export type QueueStats = {
+    stream: string;
+    length: number;
+    groups: GroupStats[];
+    retry: { key: string; depth: number; nextDueAt: number | null };
+    dlq: { key: string; length: number };
+    at: number;                   // epoch ms the snapshot was taken
+};
+
+function toNumber(value: number | string | null | undefined): number | null {
+    if (value === null || value === undefined) return null;
+    const n = Number(value);
+    return Number.isNaN(n) ? null : n;
+}
+
+async function groupStats(client: IGlideKitClient, stream: string, info: Record<string, number | string | null>,
+                          now: number): Promise<GroupStats> {
+    const name = String(info["name"]);
+    let consumers: ConsumerStats[] = [];
+    if (client.xinfoConsumers) {
+        consumers = (await client.xinfoConsumers(stream, name)).map(({name, pending, idle}) => ({name, pending, idleMs: idle}));
+    } else if (client.xpendingSummary) {
+        // without XINFO CONSUMERS only consumers that hold pending entries are known
+        consumers = (await client.xpendingSummary(stream, name)).consumers.map(({name, pending}) => ({name, pending, idleMs: 0}));
+    }
+
+    let oldestPending: GroupStats["oldestPending"] = null;
+    if (client.xpending) {
+        const [oldest] = await client.xpending(stream, name, {idle: 0, count: 1, start: "-", end: "+"});
+        if (oldest) {
+            oldestPending = {
+                id: oldest.id,
+                ageMs: Math.max(0, now - Number(oldest.id.split("-")[0])),
+                idleMs: oldest.idle,
+                deliveries: oldest.deliveries,
+            };
+        }
+    }
+
+    const lastDeliveredId = info["last-delivered-id"];
+    return {
+        name,
+        consumers,
+        pending: toNumber(info["pending"]) ?? 0,
+        lag: toNumber(info["lag"]),
+        lastDeliveredId: lastDeliveredId === null || lastDeliveredId === undefined ? null : String(lastDeliveredId),
+        oldestPending,
+    };
+}
+
+/**
+ * Snapshot of a stream for dashboards and autoscalers: length, per-group lag/pending, per-consumer
+ * pending and idle time, the oldest pending entry, retry ZSET depth and next due time, and DLQ length.
+ * Reads are not atomic with each other; numbers can be off by in-flight work.
+ */
+export async function getQueueStats(opts: GetQueueStatsOpts): Promise<QueueStats> {
+    const {client, stream, group} = opts;
+    const retryKey = opts.retryZset ?? `${stream}:retry`;
+    const dlqKey = opts.dlqStream ?? `${stream}:dlq`;
+    const now = Date.now();
+
+    // XINFO GROUPS fails on a missing stream: report it as empty
+    const infos = await client.xinfoGroups(stream).catch(() => []);
+    const selected = group === undefined ? infos : infos.filter((info) => info["name"] === group);
+    if (group !== undefined && selected.length === 0) {
+        throw new Error(`no consumer group '${group}' on stream '${stream}'`);
+    }
+
+    const groups: GroupStats[] = [];
+    for (const info of selected) groups.push(await groupStats(client, stream, info, now));
+
+    let depth = 0;
+    let nextDueAt: number | null = null;
+    if (client.zrangebyscore) {
+        const [next] = await client.zrangebyscore(retryKey, -Infinity, Infinity, {limit: 1});
+        nextDueAt = next ? next.score : null;
+    }
+    if (client.zcard) depth = await client.zcard(retryKey);
+
+    return {
+        stream,
+        length: await client.xlen(stream),
+        groups,
+        retry: {key: retryKey, depth, nextDueAt},
+        dlq: {key: dlqKey, length: await client.xlen(dlqKey)},
+        at: now,
+    };
+}
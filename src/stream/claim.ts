@@ -0,0 +1,68 @@
+import {IGlideKitClient, StreamFields} from "../core/types.js";
+import {carriedDeliveries, deadLetterClaimed, deadLetterPoison, PoisonOpts, splitPoison} from "./poison.js";
+
+export type IdleClaimerOpts = {
+    client: IGlideKitClient;
+    stream: string;
+    group: string;
+    consumer: string;             // who will own the claimed entries
+    minIdleMs: number;
+    count: number;                // per tick
+    maxDeliveries?: number;       // see poison.ts
+    holdTtlSec?: number;          // see poison.ts
+};
+
+export type ClaimTick = {
+    // deliveries: set on the XPENDING path, counting those carried over from requeued copies
+    claimed: Array<{ id: string; fields: StreamFields; deliveries?: number }>;
+    poison: string[];             // moved to `<stream>:dlq`
+    deleted: string[];            // were pending but trimmed from the stream; acked
+};
+
+export function canClaim(client: IGlideKitClient): boolean {
+    return !!client.xautoclaim || (!!client.xpending && !!client.xclaim);
+}
+
+/**
+ * One PEL recovery step per call. Uses XAUTOCLAIM when the client has it, keeping the cursor between ticks so
+ * each tick continues where the last one stopped instead of rescanning the oldest entries; otherwise
+ * XPENDING + XCLAIM from `-`. XAUTOCLAIM does not report delivery counts, so poison detection
+ * (`maxDeliveries`) keeps the XPENDING path. There an entry also counts the deliveries it carries from the
+ * copies the pending sweeper requeued, which are only known once it is claimed.
+ */
+export function makeIdleClaimer(opts: IdleClaimerOpts): () => Promise<ClaimTick> {
+    const {client, stream, group, consumer, minIdleMs, count, maxDeliveries, holdTtlSec} = opts;
+    let cursor = "0-0";
+
+    async function autoclaim(): Promise<ClaimTick> {
+        const {nextId, entries, deletedIds} = await client.xautoclaim!(stream, group, consumer, minIdleMs, cursor, {count});
+        cursor = nextId;
+        // the server normally drops them from the PEL itself; acking makes sure they do not linger
+        if (deletedIds.length > 0) await client.xack(stream, group, deletedIds);
+        return {claimed: entries, poison: [], deleted: deletedIds};
+    }
+
+    async function pendingThenClaim(): Promise<ClaimTick> {
+        const pendingEntries = await client.xpending!(stream, group, {idle: minIdleMs, count, start: "-", end: "+"});
+        if (!pendingEntries || pendingEntries.length === 0) return {claimed: [], poison: [], deleted: []};
+        const poisonOpts: PoisonOpts = {client, stream, group, consumer, minIdleMs, maxDeliveries, holdTtlSec};
+        const {deliverable, poison} = splitPoison(pendingEntries, maxDeliveries);
+        const dead = await deadLetterPoison(poisonOpts, poison);
+        // no RETRYCOUNT: the delivery counter has to keep growing for poison detection
+        const byId = new Map(deliverable.map((p) => [p.id, p]));
+        const claimed = byId.size > 0 ? await client.xclaim!(stream, group, consumer, minIdleMs, [...byId.keys()]) : [];
+        if (!maxDeliveries) return {claimed, poison: dead, deleted: []};
+        const counted = splitPoison(claimed.map(({id, fields}) => {
+            const pending = byId.get(id)!;
+            return {...pending, deliveries: pending.deliveries + carriedDeliveries(fields), fields};
+        }), maxDeliveries);
+        dead.push(...await deadLetterClaimed(poisonOpts, counted.poison));
+        return {
+            claimed: counted.deliverable.map(({id, fields, deliveries}) => ({id, fields, deliveries})),
+            poison: dead,
+            deleted: [],
+        };
+    }
+
+    return () => client.xautoclaim && !maxDeliveries ? autoclaim() : pendingThenClaim();
+}
@@ -0,0 +1,53 @@
+import {randomUUID} from "node:crypto";
+import {IGlideKitClient, StreamFields} from "../core/types.js";
+import {fieldBytes, fieldText, restoreFields, toJsonFields} from "../core/fields.js";
+import {CodecError} from "../codec/codecError.js";
+
+export type ClaimCheckOpts = {
+    thresholdBytes: number;       // encoded payloads at least this large are stored under their own key
+    ttlSec?: number;              // default 86400; has to outlive the message's wait in the stream and retry ZSET
+};
+
+// Field carrying the key of a checked-in payload in place of `payload`.
+export const PAYLOAD_REF_FIELD = "payloadRef";
+
+export const DEFAULT_CLAIM_CHECK_TTL_SEC = 86400;
+
+export function claimCheckKey(stream: string): string {
+    return `${stream}:blob:${randomUUID()}`;
+}
+
+/**
+ * Moves a large `payload` field into its own key and returns the fields with a `payloadRef` instead. With
+ * `key` (a retry of a message that was checked in) the payload is written back to that key whatever its size,
+ * refreshing the TTL, so the reference the retry carries stays valid. `extraTtlSec` covers a retry delay.
+ */
+export async function checkIn(
+    client: IGlideKitClient,
+    stream: string,
+    fields: StreamFields,
+    opts: ClaimCheckOpts | undefined,
+    reuse: { key?: string; extraTtlSec?: number } = {},
+): Promise<StreamFields> {
+    const {payload, ...rest} = fields;
+    if (payload === undefined) return fields;
+    if (!reuse.key && (!opts || fieldBytes(payload).length < opts.thresholdBytes)) return fields;
+    const key = reuse.key ?? claimCheckKey(stream);
+    const ttlSec = (opts?.ttlSec ?? DEFAULT_CLAIM_CHECK_TTL_SEC) + Math.ceil(reuse.extraTtlSec ?? 0);
+    // the same JSON form the retry ZSET uses, so binary payloads survive
+    await client.set(key, JSON.stringify(toJsonFields({payload})), ttlSec);
+    return {...rest, [PAYLOAD_REF_FIELD]: key};
+}
+
+export type CheckedOut = { fields: StreamFields; key?: string };   // key: set when the payload was checked in
+
+// Puts a checked-in payload back into the fields. Throws a CodecError when the key is gone (expired).
+export async function checkOut(client: IGlideKitClient, fields: StreamFields): Promise<CheckedOut> {
+    const ref = fields[PAYLOAD_REF_FIELD];
+    if (ref === undefined) return {fields};
+    const key = fieldText(ref);
+    const blob = await client.get(key);
+    if (blob === null) throw new CodecError("decode", `claim-check payload '${key}' is missing (expired?)`);
+    const {[PAYLOAD_REF_FIELD]: _ref, ...rest} = fields;
+    return {fields: {...rest, payload: restoreFields(JSON.parse(blob)).payload}, key};
+}
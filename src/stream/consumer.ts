@@ -1,19 +1,61 @@
 import {
     Codec,
-    ConditionalSet,
     Envelope,
     IGlideKitClient,
     LoggerLike,
+    MessageHeaders,
     noopLogger,
     RetryPolicy,
     RetryResult,
+    StreamFields,
 } from "../core/types";
+import {
+    leaseExtendScript,
+    orderingAdmitScript,
+    orderingReleaseScript,
+    requeueClaimedScript,
+    scheduleRetryScript,
+} from "./scripts.js";
+import {DEFAULT_HOLD_TTL_SEC, orderingKeys, releaseCarriedHold, sweepParked} from "./ordering.js";
+import {composeMiddleware, idempotencyMiddleware, Middleware} from "./middleware.js";
+import {MetricsSink, noopMetrics} from "../metrics/metricsSink.js";
+import {EventSource, makeEmitter} from "../core/events.js";
+import {noopTracer, traceContextOf, TracerLike, withTraceContext} from "../tracing/tracer.js";
+import {canClaim, ClaimTick, makeIdleClaimer} from "./claim.js";
+import {JobProgress, progressKey} from "./progress.js";
+import {fieldText, toJsonFields} from "../core/fields.js";
+import {CheckedOut, checkIn, checkOut, ClaimCheckOpts} from "./claimCheck.js";
+import {CodecError} from "../codec/codecError.js";
 
 export type Handler<T> = (
     payload: T,
-    ctx: { headers: Envelope<T>["headers"]; id: string }
+    ctx: {
+        headers: Envelope<T>["headers"];
+        id: string;
+        signal: AbortSignal;      // aborted on handlerTimeoutMs and on stop({drain: false})
+        // Resets the entry's PEL idle time now; false if another consumer has claimed it meanwhile.
+        extendLease(): Promise<boolean>;
+        // Stores progress under `<stream>:progress:<id>`, readable with getJobProgress.
+        reportProgress(pct: number, data?: unknown): Promise<void>;
+    }
 ) => Promise<RetryResult | void>;
 
+// Passed to retryPolicy.next when a handler runs past handlerTimeoutMs; also the signal's abort reason.
+export class HandlerTimeoutError extends Error {
+    constructor(readonly timeoutMs: number, readonly id: string) {
+        super(`handler for ${id} timed out after ${timeoutMs}ms`);
+        this.name = "HandlerTimeoutError";
+    }
+}
+
+// Abort reason for handlers still running when the consumer is stopped without draining.
+export class ConsumerStoppedError extends Error {
+    constructor() {
+        super("consumer stopped");
+        this.name = "ConsumerStoppedError";
+    }
+}
+
 export type MakeConsumerOpts<T> = {
     client: IGlideKitClient;
     stream: string;
@@ -24,42 +66,220 @@ export type MakeConsumerOpts<T> = {
     retryPolicy: RetryPolicy;
     scheduling?: { mode: "zset" | "none"; retryZset?: string };
     batch?: { count: number; blockMs: number };
+    concurrency?: number;         // max handlers running at once, default 1
+    // Per message; a function gives per-type timeouts (see Router.handlerTimeoutMs). Default: no timeout.
+    handlerTimeoutMs?: number | ((headers: MessageHeaders) => number | undefined);
+    heartbeatMs?: number;         // how often in-flight entries get their PEL idle time reset, default a third of
+                                  // pelClaim.minIdleMs, at most 10_000; 0 disables
+    progressTtlSec?: number;      // how long reportProgress data is kept, default 86400
+    claimCheck?: ClaimCheckOpts;  // check in large retried payloads too; `payloadRef`s are resolved either way
     log?: LoggerLike;
+    metrics?: MetricsSink;
+    tracer?: TracerLike;          // a consumer span per delivery, child of the message's traceparent
     idempotency?: { pendingTtlSec: number, doneTtlSec: number }
+    middleware?: Middleware<T>[]; // run around the handler in order, first is outermost; idempotency sits innermost
+    ordering?: {
+        key?: (payload: T, headers: MessageHeaders) => string | undefined;  // default: headers.key
+        acrossRetries?: boolean;  // default true: a scheduled retry holds back later messages with its key
+        holdTtlSec?: number;      // default 86400 (plus the retry delay), safety net if a held retry is lost
+        sweepIntervalMs?: number; // default 30_000: how often messages parked behind an expired hold are re-enqueued
+    };
     pelClaim?: {
         enabled?: boolean;        // default true
         minIdleMs: number;        // older than this is eligible
         maxPerTick?: number;      // default 128
         intervalMs?: number;      // default 1000
+        maxDeliveries?: number;   // entries delivered this many times go to the DLQ as poison instead; default off
     };
 };
 
-export interface ConsumerWorker<T> {
+export type StreamSubscription<T> = {
+    stream: string;
+    handler: Handler<T>;
+    codec?: Codec<T>;             // default: the consumer's codec
+    retryPolicy?: RetryPolicy;    // default: the consumer's retryPolicy
+    retryZset?: string;           // default `${stream}:retry`
+};
+
+// Payloads: the payload type of each subscription, in order; usually inferred from the handlers.
+export type MakeFanInConsumerOpts<Payloads extends unknown[] = unknown[]> = Omit<MakeConsumerOpts<unknown>,
+    "stream" | "codec" | "handler" | "retryPolicy" | "scheduling" | "ordering" | "middleware"> & {
+    streams: [...{ [K in keyof Payloads]: StreamSubscription<Payloads[K]> }];
+    codec?: Codec<unknown>;       // for subscriptions without their own
+    retryPolicy: RetryPolicy;
+    scheduling?: { mode: "zset" | "none" };
+    ordering?: MakeConsumerOpts<unknown>["ordering"];
+    middleware?: Middleware<unknown>[];
+};
+
+type WorkerEventBase = { group: string; consumer: string; at: number };   // at: epoch ms
+
+export type MessageEvent<T> = WorkerEventBase & {
+    stream: string;
+    id: string;
+    envelope: Envelope<T>;
+    durationMs: number;           // from the start of processing to the outcome being written
+};
+
+export type ConsumerEvents<T> = {
+    ack: MessageEvent<T>;
+    retry: MessageEvent<T> & { attempt: number; delayMs: number };   // attempt of the scheduled retry
+    dlq: MessageEvent<T> & { reason?: string };
+    undecodable: WorkerEventBase & { stream: string; id: string; fields: StreamFields; err: unknown };  // dead-lettered as is
+    claimed: WorkerEventBase & { stream: string; ids: string[]; deleted: string[] };  // deleted: trimmed from the stream, acked
+    poison: WorkerEventBase & { stream: string; ids: string[] };   // dead-lettered after pelClaim.maxDeliveries
+    error: WorkerEventBase & { stream?: string; id?: string; err: unknown };
+    idle: WorkerEventBase & { streams: string[] };  // a read came back empty with nothing in flight; once per idle stretch
+    stopped: WorkerEventBase & { drained: boolean; inFlight: number };
+};
+
+export interface ConsumerWorker<T> extends EventSource<ConsumerEvents<T>> {
     start(): Promise<void>;
 
     stop(opts?: { drain?: boolean; timeoutMs?: number }): Promise<void>;
+
+    isRunning(): boolean;
 }
 
+// Everything the pipeline needs to know about one source stream.
+type Route<T> = {
+    stream: string;
+    codec: Codec<T>;
+    handler: Handler<T>;
+    retryPolicy: RetryPolicy;
+    retryKey: string;
+};
+
+type WorkerOpts<T> = Omit<MakeConsumerOpts<T>, "stream" | "codec" | "handler" | "retryPolicy" | "scheduling"> & {
+    routes: Route<T>[];
+    scheduling?: { mode: "zset" | "none" };
+};
+
 export function makeConsumer<T>(opts: MakeConsumerOpts<T>): ConsumerWorker<T> {
+    const {stream, codec, handler, retryPolicy, scheduling, ...rest} = opts;
+    return makeWorker<T>({
+        ...rest,
+        scheduling,
+        routes: [{stream, codec, handler, retryPolicy, retryKey: scheduling?.retryZset || `${stream}:retry`}],
+    });
+}
+
+/**
+ * Reads several streams with one XREADGROUP per poll and dispatches each message to its stream's handler.
+ * Acks, retries (`{stream, fields}` members) and DLQ writes use the keys of the stream the message came from.
+ */
+export function makeFanInConsumer<Payloads extends unknown[]>(opts: MakeFanInConsumerOpts<Payloads>): ConsumerWorker<unknown> {
+    const {streams: subscriptions, codec, retryPolicy, ...rest} = opts;
+    // each handler only ever sees messages of its own stream
+    const streams = subscriptions as StreamSubscription<unknown>[];
+    if (streams.length === 0) throw new Error("makeFanInConsumer needs at least one stream");
+    const routes = streams.map((sub): Route<unknown> => {
+        const routeCodec = sub.codec ?? codec;
+        if (!routeCodec) throw new Error(`no codec for stream '${sub.stream}'`);
+        return {
+            stream: sub.stream,
+            codec: routeCodec,
+            handler: sub.handler,
+            retryPolicy: sub.retryPolicy ?? retryPolicy,
+            retryKey: sub.retryZset || `${sub.stream}:retry`,
+        };
+    });
+    if (new Set(routes.map((r) => r.stream)).size !== routes.length) {
+        throw new Error("makeFanInConsumer streams must be unique");
+    }
+    return makeWorker<unknown>({...rest, routes});
+}
+
+export type MakeClaimedMessageHandlerOpts<T> = Omit<MakeConsumerOpts<T>, "batch" | "pelClaim">;
+
+export interface ClaimedMessageHandler {
+    // Resolves once the message has been admitted (a slot was free); processing continues in the background.
+    handle(id: string, fields: StreamFields): Promise<void>;
+
+    // Waits for admitted messages to finish; false if some were still running at the timeout.
+    drain(timeoutMs?: number): Promise<boolean>;
+
+    // Stops admitting: handle() calls waiting for a slot return without running the message, which stays pending.
+    // With abort, running handlers' signals are aborted with a ConsumerStoppedError, as stop({drain: false}) does.
+    stop(opts?: { abort?: boolean }): void;
+}
+
+/**
+ * The makeConsumer pipeline (middleware, idempotency, ordering, ack/retry/DLQ) for messages that were
+ * claimed from the PEL instead of read from the stream. startPendingSweeper uses it in "handle" mode.
+ */
+export function makeClaimedMessageHandler<T>(opts: MakeClaimedMessageHandlerOpts<T>): ClaimedMessageHandler {
+    const {stream, codec, handler, retryPolicy, scheduling, ...rest} = opts;
+    const worker = makeWorker<T>({
+        ...rest,
+        scheduling,
+        routes: [{stream, codec, handler, retryPolicy, retryKey: scheduling?.retryZset || `${stream}:retry`}],
+    });
+    return {
+        handle: (id, fields) => worker.handleClaimed(stream, id, fields),
+        drain: (timeoutMs = 10_000) => worker.drain(timeoutMs),
+        stop: ({abort = false} = {}) => worker.halt(abort),
+    };
+}
+
+function makeWorker<T>(opts: WorkerOpts<T>): ConsumerWorker<T> & {
+    handleClaimed(stream: string, id: string, fields: StreamFields): Promise<void>;
+    drain(timeoutMs: number): Promise<boolean>;
+    halt(abort: boolean): void;
+} {
     const {
         client,
-        stream,
+        routes,
         group,
         consumer,
-        codec,
-        retryPolicy,
-        handler,
         batch = {count: 16, blockMs: 2000},
         scheduling = {mode: "zset"},
         log = noopLogger,
-        pelClaim
+        metrics = noopMetrics,
+        tracer = noopTracer,
+        handlerTimeoutMs,
+        heartbeatMs = Math.min(10_000, Math.floor((opts.pelClaim?.minIdleMs ?? 30_000) / 3)),
+        progressTtlSec = 86_400,
+        pelClaim,
+        claimCheck
     } = opts;
+    const concurrency = Math.max(1, Math.floor(opts.concurrency ?? 1));
+    const ordering = opts.ordering;
+    const holdTtlSec = ordering?.holdTtlSec ?? DEFAULT_HOLD_TTL_SEC;
+    const routesByStream = new Map(routes.map((route) => [route.stream, route]));
+    const middleware: Middleware<T>[] = [...(opts.middleware ?? [])];
+    if (opts.idempotency?.pendingTtlSec) {
+        middleware.push(idempotencyMiddleware<T>({client, ...opts.idempotency, log}));
+    }
+
+    function orderingKeyOf(env: Envelope<T>): string | undefined {
+        if (!ordering) return undefined;
+        return ordering.key ? ordering.key(env.payload, env.headers) : env.headers.key;
+    }
 
+    const events = makeEmitter<ConsumerEvents<T>>((event, err) => log.error("event listener error", {event, err}));
+    const base = () => ({group, consumer, at: Date.now()});
     let running = false;
+    let stopping = false;         // set by stop() so the loops stop waiting for a slot
+    let idle = false;
     let inFlight = 0;
+    const inFlightByStream = new Map<string, number>();
+    let loopPromise: Promise<void> | null = null;
     let claimLoopPromise: Promise<void> | null = null;
+    let parkedSweep: NodeJS.Timeout | undefined;
+    let sweeping: Promise<void> | null = null;
+    const slotWaiters: Array<() => void> = [];
+    const keyTails = new Map<string, Promise<void>>();
+    const claimers = new Map<string, () => Promise<ClaimTick>>();   // per stream, they keep the XAUTOCLAIM cursor
+    const aborters = new Set<AbortController>();   // one per running handler
+    const leased = new Map<string, Set<string>>();   // stream → ids in flight, kept alive by the heartbeat
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    function timeoutFor(headers: MessageHeaders): number | undefined {
+        return typeof handlerTimeoutMs === "function" ? handlerTimeoutMs(headers) : handlerTimeoutMs;
+    }
 
-    async function ensureGroup() {
+    async function ensureGroup(stream: string) {
         const groups = await client.xinfoGroups(stream).catch(() => []);
         const groupCreated = groups.some(record => record['name'] === group);
         if (groupCreated) return;
@@ -72,81 +292,212 @@ export function makeConsumer<T>(opts: MakeConsumerOpts<T>): ConsumerWorker<T> {
         });
     }
 
-    async function processMessage(id: string, fields: Record<string, string>) {
-        log.debug("processMessage", {stream, group, id, type: fields.headers_type});
-        const env = codec.decode(fields);
-        const idempotencyKey = opts.idempotency?.pendingTtlSec && env.headers.key ?
-            `consumed:${stream}:${env.headers.key}` : undefined;
+    // ZADD to the retry zset + XACK of the original (+ ordering hold) as one atomic step. The hold outlives
+    // the retry delay by holdTtlSec.
+    async function scheduleRetry({stream, retryKey}: Route<T>, id: string, fields: StreamFields,
+                                 dueAt: number, hold?: { key: string; token: string }) {
+        const member = JSON.stringify({stream, fields: toJsonFields(fields)});
+        const ttlSec = holdTtlSec + Math.ceil(Math.max(0, dueAt - Date.now()) / 1000);
+        await client.invokeScript(scheduleRetryScript, {
+            keys: hold ? [retryKey, stream, hold.key] : [retryKey, stream],
+            args: [String(dueAt), member, group, id, hold?.token ?? "", String(ttlSec)],
+        });
+    }
 
-        let reservedByUs = false;
+    // A message the codec rejects can never succeed: it goes to the DLQ with its raw fields, acked in the
+    // same script, instead of through the retry policy. An ordering hold it carries is released.
+    async function deadLetterUndecodable(stream: string, id: string, fields: StreamFields, err: unknown) {
+        const error = {
+            reason: "undecodable",
+            meta: {message: err instanceof Error ? err.message : String(err), issues: (err as { issues?: unknown })?.issues},
+        };
+        await client.invokeScript(requeueClaimedScript, {
+            keys: [stream, `${stream}:dlq`],
+            args: [group, id, ...Object.entries({
+                ...fields,
+                error: JSON.stringify(error),
+                handledBy: JSON.stringify({group, consumer}),
+            }).flat()],
+        });
+        await releaseCarriedHold(client, stream, group, fields, holdTtlSec);
+        metrics.increment("processed_total", {stream, group, outcome: "dlq"});
+        metrics.increment("dlq_total", {stream, group});
+        log.error("undecodable message moved to DLQ", {stream, group, id, err});
+        events.emit("undecodable", {...base(), stream, id, fields, err});
+    }
 
+    // `checkedOut`: the claim-check payload if dispatch already fetched it for the ordering key.
+    async function processMessage(route: Route<T>, id: string, fields: StreamFields, orderKey?: string,
+                                  checkedOut?: CheckedOut) {
+        const {stream, codec, handler, retryPolicy} = route;
+        const startedAt = Date.now();
+        log.debug("processMessage", {stream, group, id, type: fields.headers_type});
+        let checked: CheckedOut;
         try {
-            if (idempotencyKey) {
-                const ok = await client.set(idempotencyKey, `PENDING:${consumer}`,
-                    opts.idempotency?.pendingTtlSec, ConditionalSet.NX);
-
-                if (ok !== 'OK') {
-                    const value = await client.get(idempotencyKey);
-                    if (value === 'DONE') {
-                        log.debug("idempotency: already done", {idempotencyKey});
-                        await client.xack(stream, group, [id]);
-                        return;
-                    }
+            checked = checkedOut ?? await checkOut(client, fields);
+        } catch (err) {
+            if (!(err instanceof CodecError)) throw err;   // e.g. the GET failed: leave it pending
+            return deadLetterUndecodable(stream, id, fields, err);
+        }
+        const blobKey = checked.key;   // claim-check key; deleted once the message is acked or dead-lettered
+        let env: Envelope<T>;
+        try {
+            env = codec.decode(checked.fields);
+        } catch (err) {
+            // the DLQ entry gets the payload itself, so the blob can go
+            await deadLetterUndecodable(stream, id, checked.fields, err);
+            if (blobKey) await client.del(blobKey);
+            return;
+        }
+        const messageEvent = () => ({...base(), stream, id, envelope: env, durationMs: Date.now() - startedAt});
+        const labels = {stream, group, type: env.headers.type};
+        const orderToken = fieldText(fields.orderToken);
+        const holdKeys = orderKey && ordering?.acrossRetries !== false ? orderingKeys(stream, group, orderKey) : undefined;
 
-                    await client.xack(stream, group, [id]);
-                    await client.zadd?.(`${stream}:retry`, [{score: Date.now() + 500, member: JSON.stringify({stream, fields})}]);
+        async function releaseHold() {
+            if (!holdKeys || !orderToken) return;
+            await client.invokeScript(orderingReleaseScript, {keys: holdKeys, args: [orderToken, String(holdTtlSec)]});
+        }
+
+        async function releaseBlob() {
+            if (blobKey) await client.del(blobKey);
+        }
+
+        try {
+            if (holdKeys) {
+                // parked with the payload inline: the list has no TTL tied to the claim-check key
+                const admitted = await client.invokeScript(orderingAdmitScript, {
+                    keys: holdKeys,
+                    args: [
+                        orderToken ?? "", JSON.stringify({stream, fields: toJsonFields(checked.fields)}), group, id,
+                        String(holdTtlSec), String(Date.now()),
+                    ],
+                });
+                if (admitted === "parked") {
+                    await releaseBlob();
+                    log.debug("ordering: parked behind pending retry", {stream, group, id, orderKey});
                     return;
                 }
-                reservedByUs = true;
             }
 
-            const handlerResult = await handler(env.payload, {headers: env.headers, id})
-                .catch((e) => {
-                    return retryPolicy.next(env.headers, e);
-                });
-            const res = handlerResult || {
-                action: "ack",
-            };
+            // The span continues the trace the message carries; a retry carries this span's context on,
+            // so every attempt of a job shows up in one trace.
+            const {res, trace} = await tracer.startActiveSpan(`${stream} process`, {
+                kind: "consumer",
+                parent: traceContextOf(env.headers),
+                attributes: {
+                    "messaging.system": "valkey",
+                    "messaging.destination.name": stream,
+                    "messaging.consumer.group.name": group,
+                    "messaging.message.id": id,
+                    "glidekit.type": env.headers.type,
+                    "glidekit.attempt": env.headers.attempt,
+                },
+            }, async (span) => {
+                const failed = (headers: MessageHeaders, e: unknown) => {
+                    span.recordException(e);
+                    return retryPolicy.next(headers, e);
+                };
+                // Handler errors are resolved here so middleware always sees a RetryResult; errors thrown by
+                // middleware itself go to the retry policy as well. A stop abort is not a failure: it bypasses
+                // the policy, so it costs no attempt.
+                const invoke = async (current: Envelope<T>): Promise<RetryResult> => {
+                    const started = Date.now();
+                    const controller = new AbortController();
+                    const timeoutMs = timeoutFor(current.headers);
+                    let timer: NodeJS.Timeout | undefined;
+                    aborters.add(controller);
+                    try {
+                        const running = handler(current.payload, {
+                            headers: current.headers,
+                            id,
+                            signal: controller.signal,
+                            extendLease: async () => (await extendLeases(stream, [id])).length === 1,
+                            reportProgress: async (pct, data) => {
+                                const progress: JobProgress = {pct, data, consumer, updatedAt: Date.now()};
+                                await client.set(progressKey(stream, id), JSON.stringify(progress), progressTtlSec);
+                            },
+                        });
+                        // A timed-out handler keeps running in the background (it should watch the signal), but
+                        // its slot is released and its result ignored.
+                        const timedOut = timeoutMs === undefined ? undefined : new Promise<never>((_, reject) => {
+                            timer = setTimeout(() => {
+                                const err = new HandlerTimeoutError(timeoutMs, id);
+                                controller.abort(err);
+                                reject(err);
+                            }, timeoutMs);
+                        });
+                        return (await (timedOut ? Promise.race([running, timedOut]) : running).catch((e) => {
+                            if (controller.signal.reason instanceof ConsumerStoppedError) throw controller.signal.reason;
+                            return failed(current.headers, e);
+                        })) || {action: "ack"};
+                    } finally {
+                        clearTimeout(timer);
+                        aborters.delete(controller);
+                        metrics.observe("handler_duration_ms", {stream, group, type: current.headers.type}, Date.now() - started);
+                    }
+                };
+                const res = await composeMiddleware(middleware, invoke)({envelope: env, id, stream, group, consumer})
+                    .catch((e) => e instanceof ConsumerStoppedError ? undefined : failed(env.headers, e));
+                if (!res) {
+                    span.setAttribute("glidekit.outcome", "stopped");
+                    return {res, trace: span.context()};
+                }
+                span.setAttribute("glidekit.outcome", res.action);
+                if (res.action === "dlq") span.setError(res.reason ?? "dlq");
+                return {res, trace: span.context()};
+            });
+
+            if (!res) {
+                // stopped without draining: left in the PEL with its hold and blob for whoever claims it next
+                log.info("left pending: consumer stopped", {stream, group, id});
+                return;
+            }
 
             if (res.action === "ack") {
                 await client.xack(stream, group, [id]);
-                if (idempotencyKey) {
-                    await client.set(idempotencyKey, 'DONE', opts.idempotency?.doneTtlSec);
-                    log.debug("idempotency: done", {idempotencyKey});
-                }
+                await releaseHold();
+                await releaseBlob();
+                metrics.increment("processed_total", {...labels, outcome: "ack"});
                 log.debug("ack", {stream, group, id, type: env.headers.type});
+                events.emit("ack", messageEvent());
                 return;
             }
 
             if (res.action === "retry") {
-                if (reservedByUs && idempotencyKey) {
-                    await client.del(idempotencyKey);
-                }
-
                 const delay = res.delayMs ?? 0;
                 // Strategy: re-enqueue with attempt+1, then ack original
                 const nextEnv: Envelope<T> = {
-                    headers: {
+                    headers: withTraceContext({
                         ...env.headers,
-                        attempt: env.headers.attempt + 1,
+                        attempt: res.keepAttempt ? env.headers.attempt : env.headers.attempt + 1,
                         enqueuedAt: Date.now(),
-                    },
+                    }, trace),
                     payload: env.payload,
                 };
 
-                const fields = codec.encode(nextEnv);
+                // A checked-in payload keeps its key (and gets its TTL extended past the delay), so the reference
+                // the retry carries stays valid.
+                const fields = await checkIn(client, stream, codec.encode(nextEnv), claimCheck,
+                    {key: blobKey, extraTtlSec: delay / 1000});
+                // Hold the key until this message resolves; the token (and the hold, for paths that cannot
+                // decode the message) travels with the retried fields.
+                const hold = holdKeys ? {key: holdKeys[0], token: orderToken ?? id} : undefined;
+                if (hold) {
+                    fields.orderToken = hold.token;
+                    fields.orderHold = hold.key;
+                }
 
-                if (scheduling.mode === "zset" && client.zadd) {
-                    const retryKey = opts.scheduling?.retryZset || `${stream}:retry`;
-                    const member = JSON.stringify({stream, fields});
-                    await client.zadd(retryKey, [
-                        {score: Date.now() + delay, member},
-                    ]);
+                if (scheduling.mode === "zset") {
+                    await scheduleRetry(route, id, fields, Date.now() + delay, hold);
                 } else {
                     // immediate requeue fallback
-                    await client.xadd(stream, codec.encode(nextEnv));
+                    if (hold) await client.set(hold.key, hold.token, holdTtlSec);
+                    await client.xadd(stream, fields);
+                    await client.xack(stream, group, [id]);
                 }
-                await client.xack(stream, group, [id]);
+                metrics.increment("processed_total", {...labels, outcome: "retry"});
+                metrics.increment("retry_scheduled_total", labels);
                 log.info("retry scheduled", {
                     stream,
                     group,
@@ -154,131 +505,309 @@ export function makeConsumer<T>(opts: MakeConsumerOpts<T>): ConsumerWorker<T> {
                     attempt: nextEnv.headers.attempt,
                     delay,
                 });
+                events.emit("retry", {...messageEvent(), attempt: nextEnv.headers.attempt, delayMs: delay});
                 return;
             }
 
             if (res.action === "dlq") {
-                if (reservedByUs && idempotencyKey) {
-                    await client.del(idempotencyKey);
-                }
-
                 const dlqStream = `${stream}:dlq`;
-                const dlqPayload = {
-                    headers: {...env.headers},
-                    payload: env.payload,
-                    error: {reason: res.reason, meta: res.meta},
-                    handledBy: {group, consumer},
-                };
+                // through the codec, so the payload is stored the way the stream stores it (e.g. encrypted)
                 await client.xadd(dlqStream, {
-                    headers: JSON.stringify(dlqPayload.headers),
-                    payload: JSON.stringify(dlqPayload.payload),
-                    error: JSON.stringify(dlqPayload.error),
-                    handledBy: JSON.stringify(dlqPayload.handledBy),
+                    ...codec.encode({headers: {...env.headers}, payload: env.payload}),
+                    error: JSON.stringify({reason: res.reason, meta: res.meta}),
+                    handledBy: JSON.stringify({group, consumer}),
                 });
                 await client.xack(stream, group, [id]);
+                await releaseHold();
+                await releaseBlob();
+                metrics.increment("processed_total", {...labels, outcome: "dlq"});
+                metrics.increment("dlq_total", labels);
                 log.warn("dlq", {stream, group, id, reason: res.reason});
+                events.emit("dlq", {...messageEvent(), reason: res.reason});
                 return;
             }
         } catch (err) {
-            if (reservedByUs && idempotencyKey) {
-                await client.del(idempotencyKey);
-            }
             // Last-chance handler error → schedule retry with policy based on a synthetic envelope
             log.error("handler exception", {stream, group, id, err});
+            metrics.increment("processed_total", {...labels, outcome: "error"});
+            events.emit("error", {...base(), stream, id, err});
             // Naive: ack to avoid tight loop; caller should rely on idle sweeper for robustness
             await client.xack(stream, group, [id]);
+            await releaseHold();
+            await releaseBlob();
         }
     }
 
-    async function claimOnce() {
-        const cfg = pelClaim ?? { enabled: true, minIdleMs: 30_000, maxPerTick: 128, intervalMs: 1000 };
-        if (!cfg.enabled || !client.xpending || !client.xclaim) return;
+    // Also returns, without a slot, once the consumer is stopping; the loops check `running` after it.
+    async function waitForSlot() {
+        while (inFlight >= concurrency && !stopping) {
+            await new Promise<void>((r) => slotWaiters.push(r));
+        }
+    }
+
+    // Returns the ids still owned by this consumer.
+    async function extendLeases(stream: string, ids: string[]): Promise<string[]> {
+        const extended = await client.invokeScript(leaseExtendScript, {keys: [stream], args: [group, consumer, ...ids]});
+        return (extended as string[]).map(String);
+    }
+
+    async function heartbeatTick() {
+        for (const [stream, ids] of leased) {
+            if (ids.size === 0) continue;
+            try {
+                const kept = new Set(await extendLeases(stream, [...ids]));
+                const lost = [...ids].filter((id) => !kept.has(id));
+                if (lost.length > 0) log.warn("lease lost: claimed by another consumer while in flight", {stream, group, ids: lost});
+            } catch (err) {
+                log.error("lease heartbeat error", {stream, group, err});
+                events.emit("error", {...base(), stream, err});
+            }
+        }
+    }
+
+    // The heartbeat runs only while something is in flight.
+    function trackLease(stream: string, id: string, held: boolean) {
+        let ids = leased.get(stream);
+        if (!ids) {
+            ids = new Set();
+            leased.set(stream, ids);
+        }
+        if (held) ids.add(id);
+        else ids.delete(id);
+        if (held && !heartbeat && heartbeatMs > 0) {
+            heartbeat = setInterval(() => void heartbeatTick(), heartbeatMs);
+        } else if (!held && inFlight === 0) {
+            clearInterval(heartbeat);
+            heartbeat = undefined;
+        }
+    }
+
+    function trackInFlight(stream: string, delta: number) {
+        const count = (inFlightByStream.get(stream) ?? 0) + delta;
+        inFlightByStream.set(stream, count);
+        metrics.gauge("in_flight", {stream, group}, count);
+    }
+
+    // Runs processMessage in the background; callers must hold a slot (see waitForSlot).
+    // Messages sharing an ordering key are chained so they run one after another in arrival order.
+    // Resolves before it returns when ordering needs a claim-checked payload, so await it to keep arrival order.
+    async function dispatch(route: Route<T>, id: string, fields: StreamFields) {
+        inFlight++;
+        trackInFlight(route.stream, 1);
+        trackLease(route.stream, id, true);
+        let orderKey: string | undefined;
+        let checkedOut: CheckedOut | undefined;
         try {
-            const pendingEntries = await client.xpending(stream, group, {
-                idle: cfg.minIdleMs,
-                count: cfg.maxPerTick ?? 128,
-                start: "-",
-                end: "+",
+            if (ordering) {
+                checkedOut = await checkOut(client, fields);
+                orderKey = orderingKeyOf(route.codec.decode(checkedOut.fields));
+            }
+        } catch {
+            // undecodable or payload missing: processMessage reports it
+        }
+        // ordering keys are scoped to their stream
+        const tailKey = orderKey !== undefined ? `${route.stream}\u0000${orderKey}` : undefined;
+        const previous = tailKey ? keyTails.get(tailKey) : undefined;
+        const task = (previous ?? Promise.resolve())
+            .then(() => processMessage(route, id, fields, orderKey, checkedOut))
+            .catch((err) => {
+                log.error("processMessage error", {stream: route.stream, group, id, err});
+                events.emit("error", {...base(), stream: route.stream, id, err});
+            })
+            .finally(() => {
+                inFlight--;
+                trackInFlight(route.stream, -1);
+                trackLease(route.stream, id, false);
+                if (tailKey && keyTails.get(tailKey) === task) keyTails.delete(tailKey);
+                slotWaiters.shift()?.();
             });
+        if (tailKey) keyTails.set(tailKey, task);
+    }
 
-            if (!pendingEntries || pendingEntries.length === 0) return;
-            const ids = pendingEntries.map((p) => p.id);
-            const claimed = await client.xclaim(stream, group, consumer, cfg.minIdleMs, ids, { retrycount: 1 });
+    async function claimOnce(route: Route<T>) {
+        const {stream} = route;
+        const cfg = pelClaim ?? { enabled: true, minIdleMs: 30_000, maxPerTick: 128, intervalMs: 1000 };
+        if (!cfg.enabled || !canClaim(client)) return;
+        try {
+            let claimIdle = claimers.get(stream);
+            if (!claimIdle) {
+                claimIdle = makeIdleClaimer({
+                    client, stream, group, consumer,
+                    minIdleMs: cfg.minIdleMs,
+                    count: cfg.maxPerTick ?? 128,
+                    maxDeliveries: cfg.maxDeliveries,
+                    holdTtlSec,
+                });
+                claimers.set(stream, claimIdle);
+            }
+            const {claimed, poison, deleted} = await claimIdle();
+            if (poison.length > 0) {
+                metrics.increment("dlq_total", { stream, group }, poison.length);
+                log.error("poison messages moved to DLQ", { stream, group, ids: poison });
+                events.emit("poison", { ...base(), stream, ids: poison });
+            }
+            if (deleted.length > 0) log.warn("pel-claim: acked entries trimmed from the stream", { stream, ids: deleted });
+            if (claimed.length > 0 || deleted.length > 0) {
+                metrics.increment("claimed_total", { stream, group }, claimed.length);
+                events.emit("claimed", { ...base(), stream, ids: claimed.map((c) => c.id), deleted });
+            }
             for (const { id, fields } of claimed) {
-                inFlight++;
-                await processMessage(id, fields);
-                inFlight--;
+                await waitForSlot();
+                if (!running) break;   // stays pending with us until it is claimed again
+                await dispatch(route, id, fields);
             }
-            log.debug("pel-claimed", { count: claimed.length });
+            log.debug("pel-claimed", { stream, count: claimed.length });
         } catch (err) {
-            log.error("pel-claim error", { err });
+            log.error("pel-claim error", { stream, err });
+            events.emit("error", { ...base(), stream, err });
         }
     }
 
     async function claimLoop() {
         const interval = (pelClaim?.intervalMs ?? 1000);
         while (running) {
-            await claimOnce();
+            for (const route of routes) await claimOnce(route);
             await new Promise((r) => setTimeout(r, interval));
         }
     }
 
+    // Messages parked behind a hold that expired unreleased (its retry was lost) are re-enqueued here when no
+    // new message for the key comes along to do it.
+    function sweepParkedTick() {
+        if (sweeping) return;
+        sweeping = (async () => {
+            for (const {stream} of routes) {
+                try {
+                    const handedOn = await sweepParked(client, stream, group, holdTtlSec);
+                    if (handedOn > 0) log.warn("ordering: re-enqueued messages parked behind expired holds", {stream, group, count: handedOn});
+                } catch (err) {
+                    log.error("ordering: parked sweep error", {stream, group, err});
+                    events.emit("error", {...base(), stream, err});
+                }
+            }
+        })().finally(() => {
+            sweeping = null;
+        });
+    }
+
     async function loop() {
+        const streams = routes.map((route) => route.stream);
 
         while (running) {
             try {
+                // Only read what we can start right away; the rest stays in the stream for other consumers.
+                await waitForSlot();
+                if (!running) break;
                 const res = await client.xreadgroup({
                     group,
                     consumer,
                     blockMs: batch.blockMs,
-                    count: batch.count,
-                    streams: [{key: stream, id: ">"}],
+                    count: Math.min(batch.count, concurrency - inFlight),
+                    streams: streams.map((key) => ({key, id: ">" as const})),
                 });
+                // stopped while the read was blocked: leave what it returned pending for the PEL claim
+                if (!running) break;
 
-                log.debug("xreadgroup", {stream, group, count: res?.length});
+                log.debug("xreadgroup", {streams, group, count: res?.length});
 
-                if (!res || res.length === 0) continue;
+                if (!res || res.length === 0) {
+                    if (!idle && inFlight === 0) {
+                        idle = true;
+                        events.emit("idle", {...base(), streams});
+                    }
+                    continue;
+                }
+                idle = false;
 
                 for (const part of res) {
-                    log.debug("xreadgroup.part", {stream, group, count: part.messages.length});
+                    const route = routesByStream.get(part.stream);
+                    log.debug("xreadgroup.part", {stream: part.stream, group, count: part.messages.length});
+                    if (!route) {
+                        log.error("xreadgroup returned an unknown stream", {stream: part.stream, group});
+                        continue;
+                    }
                     for (const msg of part.messages) {
-                        log.debug("xreadgroup.msg", {stream, group, id: msg.id});
-                        inFlight++;
-                        await processMessage(msg.id, msg.fields);
-                        inFlight--;
+                        log.debug("xreadgroup.msg", {stream: part.stream, group, id: msg.id});
+                        await waitForSlot();
+                        if (!running) break;
+                        await dispatch(route, msg.id, msg.fields);
                     }
                 }
             } catch (err) {
                 log.error("xreadgroup error", {err});
+                events.emit("error", {...base(), err});
                 await new Promise((r) => setTimeout(r, 250));
             }
         }
     }
 
+    async function waitForDrain(timeoutMs: number) {
+        const deadline = Date.now() + timeoutMs;
+        while (inFlight > 0 && Date.now() < deadline) {
+            await new Promise((r) => setTimeout(r, 25));
+        }
+        return inFlight === 0;
+    }
+
     return {
+        on: events.on,
+        off: events.off,
+        async handleClaimed(stream, id, fields) {
+            const route = routesByStream.get(stream);
+            if (!route) throw new Error(`no route for stream '${stream}'`);
+            await waitForSlot();
+            if (stopping) return;
+            await dispatch(route, id, fields);
+        },
+        drain: waitForDrain,
+        halt(abort) {
+            stopping = true;
+            for (const wake of slotWaiters.splice(0)) wake();
+            if (!abort) return;
+            for (const controller of aborters) controller.abort(new ConsumerStoppedError());
+            clearInterval(heartbeat);
+            heartbeat = undefined;
+        },
         async start() {
             if (running) return;
-            await ensureGroup();
+            for (const route of routes) await ensureGroup(route.stream);
             running = true;
-            // Fire-and-forget; if you prefer, you can manage the promise outside
-            void loop();
-            if (pelClaim?.enabled && client.xpending && client.xclaim) {
+            stopping = false;
+            // runs in the background; stop() waits for it
+            loopPromise = loop();
+            if (pelClaim?.enabled && canClaim(client)) {
                 claimLoopPromise = claimLoop();
             }
+            if (ordering && ordering.acrossRetries !== false) {
+                parkedSweep = setInterval(sweepParkedTick, ordering.sweepIntervalMs ?? 30_000);
+            }
         },
         async stop({drain = true, timeoutMs = 10_000} = {}) {
             if (!running) return;
+            running = false;
+            stopping = true;
+            for (const wake of slotWaiters.splice(0)) wake();
+            clearInterval(parkedSweep);
+            parkedSweep = undefined;
+            // a read blocked in XREADGROUP returns within blockMs; nothing it returns is dispatched any more
+            const loops = Promise.all([loopPromise, claimLoopPromise, sweeping]);
             if (!drain) {
-                running = false;
-                if (claimLoopPromise) await claimLoopPromise;
-                claimLoopPromise = null;
+                for (const controller of aborters) controller.abort(new ConsumerStoppedError());
+                // let other consumers reclaim whatever the aborted handlers leave behind
+                clearInterval(heartbeat);
+                heartbeat = undefined;
+                await loops;
+                loopPromise = claimLoopPromise = null;
+                events.emit("stopped", {...base(), drained: false, inFlight});
                 return;
             }
-            const deadline = Date.now() + timeoutMs;
-            running = false;
-            while (inFlight > 0 && Date.now() < deadline) {
-                await new Promise((r) => setTimeout(r, 25));
-            }
+            await loops;
+            loopPromise = claimLoopPromise = null;
+            const drained = await waitForDrain(timeoutMs);
+            events.emit("stopped", {...base(), drained, inFlight});
+        },
+        isRunning() {
+            return running;
         },
     };
 }
@@ -0,0 +1,73 @@
+import {ConditionalSet, Envelope, IGlideKitClient, LoggerLike, noopLogger, RetryResult} from "../core/types.js";
+
+export type MiddlewareContext<T> = {
+    envelope: Envelope<T>;
+    id: string;
+    stream: string;
+    group: string;
+    consumer: string;
+};
+
+// Wraps handler invocation. Call `next()` to continue (optionally with a replaced envelope) and return
+// its result, or return a RetryResult of your own to short-circuit. A thrown error goes to the retry policy.
+export type Middleware<T> = (
+    ctx: MiddlewareContext<T>,
+    next: (envelope?: Envelope<T>) => Promise<RetryResult>
+) => Promise<RetryResult>;
+
+// Runs `middleware` in order around `inner`; the first entry is the outermost.
+export function composeMiddleware<T>(
+    middleware: Middleware<T>[],
+    inner: (envelope: Envelope<T>) => Promise<RetryResult>
+): (ctx: MiddlewareContext<T>) => Promise<RetryResult> {
+    return (ctx) => {
+        const run = (index: number, envelope: Envelope<T>): Promise<RetryResult> => {
+            if (index === middleware.length) return inner(envelope);
+            return middleware[index]({...ctx, envelope}, (next) => run(index + 1, next ?? envelope));
+        };
+        return run(0, ctx.envelope);
+    };
+}
+
+/**
+ * Consumer-side idempotency on `headers.key`: reserves `consumed:<stream>:<key>` with SET NX while the
+ * handler runs and marks it DONE on ack. A key that is already DONE is acked without running the handler;
+ * one that is still PENDING elsewhere is retried shortly without counting an attempt.
+ */
+export function idempotencyMiddleware<T>(opts: {
+    client: IGlideKitClient;
+    pendingTtlSec: number;
+    doneTtlSec: number;
+    log?: LoggerLike;
+}): Middleware<T> {
+    const {client, pendingTtlSec, doneTtlSec, log = noopLogger} = opts;
+    return async (ctx, next) => {
+        if (!ctx.envelope.headers.key) return next();
+        const idempotencyKey = `consumed:${ctx.stream}:${ctx.envelope.headers.key}`;
+
+        const ok = await client.set(idempotencyKey, `PENDING:${ctx.consumer}`, pendingTtlSec, ConditionalSet.NX);
+        if (ok !== 'OK') {
+            const value = await client.get(idempotencyKey);
+            if (value === 'DONE') {
+                log.debug("idempotency: already done", {idempotencyKey});
+                return {action: "ack"};
+            }
+            return {action: "retry", delayMs: 500, keepAttempt: true};
+        }
+
+        let res: RetryResult;
+        try {
+            res = await next();
+        } catch (err) {
+            await client.del(idempotencyKey);
+            throw err;
+        }
+        if (res.action === "ack") {
+            await client.set(idempotencyKey, 'DONE', doneTtlSec);
+            log.debug("idempotency: done", {idempotencyKey});
+        } else {
+            await client.del(idempotencyKey);
+        }
+        return res;
+    };
+}
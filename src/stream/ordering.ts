@@ -0,0 +1,49 @@
+import {randomUUID} from "node:crypto";
+import {IGlideKitClient, StreamFields} from "../core/types.js";
+import {fieldText} from "../core/fields.js";
+import {orderingReleaseScript, orderingSweepScript} from "./scripts.js";
+
+export const DEFAULT_HOLD_TTL_SEC = 86_400;
+
+// Index of a group's parked lists (a ZSET of hold keys), so lists whose hold expired can be swept.
+export function parkedIndexKey(stream: string, group: string): string {
+    return `${stream}:parked:${group}`;
+}
+
+// The KEYS the ordering scripts take for one hold: hold, parked list, stream, parked index.
+export function holdKeysOf(stream: string, group: string, hold: string): string[] {
+    return [hold, `${hold}:parked`, stream, parkedIndexKey(stream, group)];
+}
+
+export function orderingKeys(stream: string, group: string, orderKey: string): string[] {
+    return holdKeysOf(stream, group, `${stream}:order:${group}:${orderKey}`);
+}
+
+/**
+ * Releases the hold a retried message carries in its `orderHold`/`orderToken` fields. For terminal paths that
+ * cannot decode the message to recompute its ordering key (undecodable, poison); without it the messages
+ * parked behind the hold would wait for its TTL and the sweep.
+ */
+export async function releaseCarriedHold(client: IGlideKitClient, stream: string, group: string,
+                                         fields: StreamFields, holdTtlSec = DEFAULT_HOLD_TTL_SEC): Promise<void> {
+    const hold = fieldText(fields.orderHold);
+    const token = fieldText(fields.orderToken);
+    if (!hold || !token || !hold.startsWith(`${stream}:order:${group}:`)) return;
+    await client.invokeScript(orderingReleaseScript, {keys: holdKeysOf(stream, group, hold), args: [token, String(holdTtlSec)]});
+}
+
+// Hands the hold of every parked list whose hold expired to its oldest message. Returns how many were re-enqueued.
+export async function sweepParked(client: IGlideKitClient, stream: string, group: string,
+                                  holdTtlSec = DEFAULT_HOLD_TTL_SEC): Promise<number> {
+    if (!client.zrangebyscore) return 0;
+    const holds = await client.zrangebyscore(parkedIndexKey(stream, group), -Infinity, Infinity);
+    let handedOn = 0;
+    for (const {member} of holds) {
+        const result = await client.invokeScript(orderingSweepScript, {
+            keys: holdKeysOf(stream, group, member),
+            args: [randomUUID(), String(holdTtlSec)],
+        });
+        handedOn += Number(result);
+    }
+    return handedOn;
+}
@@ -1,6 +1,24 @@
-import {IGlideKitClient} from "../core/types.js";
+import {Codec, IGlideKitClient, StreamFields} from "../core/types.js";
+import {MetricsSink, noopMetrics} from "../metrics/metricsSink.js";
+import {EventSource, makeEmitter} from "../core/events.js";
+import {ClaimedMessageHandler, makeClaimedMessageHandler, MakeClaimedMessageHandlerOpts} from "./consumer.js";
+import {requeueClaimedScript} from "./scripts.js";
+import {canClaim, makeIdleClaimer} from "./claim.js";
+import {checkIn, checkOut} from "./claimCheck.js";
+import {releaseCarriedHold} from "./ordering.js";
+import {DELIVERIES_FIELD} from "./poison.js";
+import {CodecError} from "../codec/codecError.js";
 
-export type PendingSweeperOpts = {
+// What happens to entries once claimed:
+// - "requeue": added back to the stream and the claimed entry acked, atomically. Without a codec the fields go
+//   back exactly as they were; with one the entry is decoded and re-encoded with attempt + 1, and entries
+//   it cannot decode go to `<stream>:dlq` instead.
+// - "handle": run through the makeConsumer pipeline (handler, retryPolicy, middleware, ...) as this consumer.
+export type PendingSweeperRecovery<T = unknown> =
+    | { mode: "requeue"; codec?: Codec<T> }
+    | ({ mode: "handle" } & Omit<MakeClaimedMessageHandlerOpts<T>, "client" | "stream" | "group" | "consumer">);
+
+export type PendingSweeperOpts<T = unknown> = {
     client: IGlideKitClient;
     stream: string;
     group: string;
@@ -9,15 +27,31 @@ export type PendingSweeperOpts = {
     maxPerTick?: number;         // limit claims per tick
     tickMs?: number;             // polling interval
     log?: { info: Function; warn: Function; error: Function; debug: Function };
+    metrics?: MetricsSink;       // reports claimed_total and pel_size
+    recovery?: PendingSweeperRecovery<T>;  // default {mode: "requeue"}
+    drainTimeoutMs?: number;     // "handle" mode: how long stop() waits for running handlers, default 10s
+    maxDeliveries?: number;      // entries delivered this many times go to the DLQ as poison instead; default off.
+                                 // "requeue" mode carries the count over to the entry it adds back
+};
+
+type SweeperEventBase = { stream: string; group: string; consumer: string; at: number };
+
+export type PendingSweeperEvents = {
+    claimed: SweeperEventBase & { ids: string[]; deleted: string[] };   // deleted: trimmed from the stream, acked
+    requeued: SweeperEventBase & { ids: string[] };   // claimed ids added back to the stream
+    dlq: SweeperEventBase & { ids: string[]; reason: "undecodable" | "poison" };  // claimed ids moved to the DLQ
+    error: SweeperEventBase & { err: unknown };
+    idle: SweeperEventBase;                        // a tick found nothing to claim; once per idle stretch
+    stopped: SweeperEventBase;
 };
 
-export type PendingSweeper = {
+export type PendingSweeper = EventSource<PendingSweeperEvents> & {
     start(): void;
     stop(): Promise<void>;
     isRunning(): boolean;
 };
 
-export function startPendingSweeper(opts: PendingSweeperOpts): PendingSweeper {
+export function startPendingSweeper<T = unknown>(opts: PendingSweeperOpts<T>): PendingSweeper {
     const {
         client,
         stream,
@@ -27,40 +61,140 @@ export function startPendingSweeper(opts: PendingSweeperOpts): PendingSweeper {
         maxPerTick = 128,
         tickMs = 1000,
         log = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} },
+        metrics = noopMetrics,
+        recovery = { mode: "requeue" },
+        drainTimeoutMs = 10_000,
+        maxDeliveries,
     } = opts;
 
-    if (!client.xpending || !client.xclaim) {
-        log.warn("pending-sweeper: xpending/xclaim not available; disabled");
-        return { start() {}, async stop() {}, isRunning: () => false };
+    if (!canClaim(client)) {
+        log.warn("pending-sweeper: xautoclaim or xpending/xclaim not available; disabled");
+        const events = makeEmitter<PendingSweeperEvents>();
+        return { on: events.on, off: events.off, start() {}, async stop() {}, isRunning: () => false };
     }
 
+    const events = makeEmitter<PendingSweeperEvents>((event, err) => log.error("event listener error", { event, err }));
+    const base = () => ({ stream, group, consumer, at: Date.now() });
     let running = false;
+    let idle = false;
     let loopPromise: Promise<void> | null = null;
+    let pipeline: ClaimedMessageHandler | null = null;   // "handle" mode; a fresh one per start(), as stop() halts it
+    const codec = recovery.mode === "requeue" ? recovery.codec : undefined;
+    const claimIdle = makeIdleClaimer({ client, stream, group, consumer, minIdleMs, count: maxPerTick, maxDeliveries });
+
+    // Returns whether the entry went back to the stream (true) or to the DLQ (false); null if another
+    // process acked it in the meantime.
+    async function requeue(id: string, claimedFields: StreamFields, deliveries?: number): Promise<boolean | null> {
+        // the added entry starts a new PEL delivery count; carrying the old one keeps poison detection working
+        const fields = maxDeliveries && deliveries !== undefined
+            ? { ...claimedFields, [DELIVERIES_FIELD]: String(deliveries) }
+            : claimedFields;
+        if (!codec) return addBack(id, stream, fields);
+        // a missing claim-check payload is dead-lettered below; a failed GET leaves the entry pending
+        const checked = await checkOut(client, fields).catch((err: unknown) => {
+            if (err instanceof CodecError) return err;
+            throw err;
+        });
+        let next: StreamFields;
+        let target = stream;
+        try {
+            if (checked instanceof CodecError) throw checked;
+            const env = codec.decode(checked.fields);
+            // keep extra fields such as the ordering token next to the re-encoded envelope
+            next = { ...fields, ...codec.encode({
+                headers: { ...env.headers, attempt: env.headers.attempt + 1, enqueuedAt: Date.now() },
+                payload: env.payload,
+            }) };
+        } catch (err) {
+            target = `${stream}:dlq`;
+            // with the claim-checked payload inlined, so its key can go
+            next = {
+                ...checked instanceof CodecError ? fields : checked.fields,
+                error: JSON.stringify({ reason: "undecodable", meta: { message: err instanceof Error ? err.message : String(err) } }),
+                handledBy: JSON.stringify({ group, consumer }),
+            };
+        }
+        // a claim-checked payload goes back under its key, so the entry keeps carrying only the reference
+        if (target === stream && !(checked instanceof CodecError) && checked.key) {
+            next = await checkIn(client, stream, next, undefined, { key: checked.key });
+        }
+        const outcome = await addBack(id, target, next);
+        if (outcome === false) {
+            if (!(checked instanceof CodecError) && checked.key) await client.del(checked.key);
+            await releaseCarriedHold(client, stream, group, fields);
+        }
+        return outcome;
+    }
+
+    async function addBack(id: string, target: string, fields: StreamFields): Promise<boolean | null> {
+        const result = await client.invokeScript(requeueClaimedScript, {
+            keys: [stream, target],
+            args: [group, id, ...Object.entries(fields).flat()],
+        });
+        if (!result) return null;
+        return target === stream;
+    }
+
+    async function recover(claimed: Array<{ id: string; fields: StreamFields; deliveries?: number }>) {
+        // entries left over once stopped stay in the sweeper's PEL until they are claimed again
+        if (pipeline) {
+            for (const { id, fields } of claimed) {
+                if (!running) return;
+                await pipeline.handle(id, fields);
+            }
+            return;
+        }
+        const requeued: string[] = [];
+        const dead: string[] = [];
+        for (const { id, fields, deliveries } of claimed) {
+            if (!running) break;
+            const outcome = await requeue(id, fields, deliveries);
+            if (outcome === true) requeued.push(id);
+            else if (outcome === false) dead.push(id);
+        }
+        if (requeued.length > 0) {
+            log.debug("pending-sweeper: requeued", { count: requeued.length });
+            events.emit("requeued", { ...base(), ids: requeued });
+        }
+        if (dead.length > 0) {
+            log.error("pending-sweeper: undecodable entries moved to DLQ", { count: dead.length });
+            events.emit("dlq", { ...base(), ids: dead, reason: "undecodable" });
+        }
+    }
+
+    async function reportPelSize() {
+        const groups = await client.xinfoGroups(stream).catch(() => []);
+        const pending = groups.find((record) => record['name'] === group)?.['pending'];
+        if (pending !== undefined && pending !== null) metrics.gauge("pel_size", { stream, group }, Number(pending));
+    }
 
     async function tickOnce() {
         try {
-            const pendingEntries = client.xpending ? await client.xpending(stream, group, {
-                idle: minIdleMs,
-                count: maxPerTick,
-                start: "-",
-                end: "+",
-            }) : [];
-            if (!pendingEntries || pendingEntries.length === 0) return;
-
-            const ids = pendingEntries.map((p) => p.id);
-            const claimed = client.xclaim ? await client.xclaim(stream, group, consumer, minIdleMs, ids, {
-                retrycount: 1,
-            }) : [];
+            await reportPelSize();
+            const { claimed, poison, deleted } = await claimIdle();
+            if (claimed.length === 0 && poison.length === 0 && deleted.length === 0) {
+                if (!idle) events.emit("idle", base());
+                idle = true;
+                return;
+            }
+            idle = false;
+
+            if (poison.length > 0) {
+                metrics.increment("dlq_total", { stream, group }, poison.length);
+                log.error("pending-sweeper: poison entries moved to DLQ", { count: poison.length });
+                events.emit("dlq", { ...base(), ids: poison, reason: "poison" });
+            }
+            if (deleted.length > 0) log.warn("pending-sweeper: acked entries trimmed from the stream", { ids: deleted });
 
             log.debug("pending-sweeper: claimed", { count: claimed.length });
-            // Claimed messages will be seen by the consumer loop if reading PEL; our loop reads new entries only.
-            // Two options:
-            // 1) Re-enqueue cloned messages (attempt++) and XACK originals (requires PEL read to ack original)
-            // 2) Let a separate PEL-processing loop handle them.
-            //
-            // For now, we just claim to the current consumer; your consumer can add a path to also read from PEL if desired.
+            if (claimed.length > 0 || deleted.length > 0) {
+                metrics.increment("claimed_total", { stream, group }, claimed.length);
+                events.emit("claimed", { ...base(), ids: claimed.map((c) => c.id), deleted });
+            }
+            await recover(claimed);
         } catch (err) {
             log.error("pending-sweeper error", { err });
+            events.emit("error", { ...base(), err });
         }
     }
 
@@ -77,15 +211,32 @@ export function startPendingSweeper(opts: PendingSweeperOpts): PendingSweeper {
     }
 
     return {
+        on: events.on,
+        off: events.off,
         start() {
             if (loopPromise) return;
+            if (recovery.mode === "handle") {
+                const { mode: _mode, ...handlerOpts } = recovery;
+                // leases kept below this sweeper's minIdleMs, so other sweepers leave running handlers alone
+                pipeline = makeClaimedMessageHandler({
+                    heartbeatMs: Math.min(10_000, Math.floor(minIdleMs / 3)),
+                    ...handlerOpts, client, stream, group, consumer,
+                });
+            }
             loopPromise = loop();
         },
         async stop() {
             if (!loopPromise) return;
             running = false;
+            // wakes a recover() waiting for a free slot
+            pipeline?.stop();
             await loopPromise;
             loopPromise = null;
+            if (pipeline && !(await pipeline.drain(drainTimeoutMs))) {
+                log.warn("pending-sweeper: handlers still running at drain timeout; aborting them", { stream, group });
+                pipeline.stop({ abort: true });
+            }
+            events.emit("stopped", base());
         },
         isRunning() {
             return !!loopPromise && running;
@@ -0,0 +1,86 @@
+import {IGlideKitClient, StreamFields} from "../core/types.js";
+import {fieldText} from "../core/fields.js";
+import {CodecError} from "../codec/codecError.js";
+import {CheckedOut, checkOut} from "./claimCheck.js";
+import {requeueClaimedScript} from "./scripts.js";
+import {releaseCarriedHold} from "./ordering.js";
+
+export type PendingEntry = { id: string; consumer: string; idle: number; deliveries: number };
+
+// Deliveries of the earlier copies of an entry the pending sweeper requeued. XADD starts the PEL delivery
+// count over, so without it a message that crashes every consumer would be requeued forever.
+export const DELIVERIES_FIELD = "deliveries";
+
+export function carriedDeliveries(fields: StreamFields): number {
+    const carried = Number(fieldText(fields[DELIVERIES_FIELD]) ?? 0);
+    return Number.isFinite(carried) && carried > 0 ? carried : 0;
+}
+
+export type PoisonOpts = {
+    client: IGlideKitClient;
+    stream: string;
+    group: string;
+    consumer: string;             // who claims the poison entries before dead-lettering them
+    minIdleMs: number;
+    maxDeliveries?: number;       // unset disables detection
+    holdTtlSec?: number;          // for an ordering hold handed on to the next parked message, default 86400
+};
+
+// Splits XPENDING entries into those that may be claimed and redelivered and those already delivered
+// maxDeliveries times. The latter most likely crash whoever handles them, so they never reach retryPolicy.
+export function splitPoison<E extends PendingEntry>(entries: E[], maxDeliveries?: number) {
+    if (!maxDeliveries) return {deliverable: entries, poison: []};
+    return {
+        deliverable: entries.filter((entry) => entry.deliveries < maxDeliveries),
+        poison: entries.filter((entry) => entry.deliveries >= maxDeliveries),
+    };
+}
+
+/**
+ * Claims poison entries and moves them to `<stream>:dlq` with reason `poison` and their delivery history,
+ * acking them in the same script. Claiming first means only one of several competing claimers moves each
+ * entry. Returns the ids that were dead-lettered.
+ */
+export async function deadLetterPoison(opts: PoisonOpts, poison: PendingEntry[]): Promise<string[]> {
+    const {client, stream, group, consumer, minIdleMs} = opts;
+    if (poison.length === 0 || !client.xclaim) return [];
+    const byId = new Map(poison.map((entry) => [entry.id, entry]));
+    const claimed = await client.xclaim(stream, group, consumer, minIdleMs, [...byId.keys()]);
+    return deadLetterClaimed(opts, claimed.map(({id, fields}) => ({...byId.get(id)!, fields})));
+}
+
+/**
+ * Moves poison entries this consumer already claimed to `<stream>:dlq`. A claim-checked payload is inlined into
+ * the DLQ entry and its key deleted, so it outlives the TTL, and an ordering hold the entry carries is released.
+ * The carried delivery count moves into `error.meta`, so a requeue from the DLQ starts over.
+ */
+export async function deadLetterClaimed(opts: PoisonOpts,
+                                        claimed: Array<PendingEntry & { fields: StreamFields }>): Promise<string[]> {
+    const {client, stream, group, consumer, maxDeliveries, holdTtlSec} = opts;
+    const moved: string[] = [];
+    const now = Date.now();
+    for (const {id, fields, consumer: lastConsumer, idle, deliveries} of claimed) {
+        // an expired key leaves nothing to inline; the reference goes along as it is
+        const checked: CheckedOut = await checkOut(client, fields).catch((err: unknown) => {
+            if (err instanceof CodecError) return {fields};
+            throw err;
+        });
+        const {[DELIVERIES_FIELD]: _carried, ...entryFields} = checked.fields;
+        const result = await client.invokeScript(requeueClaimedScript, {
+            keys: [stream, `${stream}:dlq`],
+            args: [group, id, ...Object.entries({
+                ...entryFields,
+                error: JSON.stringify({
+                    reason: "poison",
+                    meta: {deliveries, maxDeliveries, lastConsumer, lastDeliveredAt: now - idle},
+                }),
+                handledBy: JSON.stringify({group, consumer}),
+            }).flat()],
+        });
+        if (!result) continue;
+        if (checked.key) await client.del(checked.key);
+        await releaseCarriedHold(client, stream, group, fields, holdTtlSec);
+        moved.push(id);
+    }
+    return moved;
+}
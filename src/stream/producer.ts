@@ -1,5 +1,10 @@
-import {Codec, Envelope, MessageHeaders, IGlideKitClient, LoggerLike} from "../core/types";
-import {Script} from "@valkey/valkey-glide";
+import {Codec, Envelope, FieldValue, MessageHeaders, IGlideKitClient, LoggerLike, Millis} from "../core/types";
+import {toJsonFields} from "../core/fields.js";
+import {idempotencyScript, scheduleSendScript} from "./scripts.js";
+import {checkIn, ClaimCheckOpts} from "./claimCheck.js";
+import {MetricsSink, noopMetrics} from "../metrics/metricsSink.js";
+import {TracerLike, withTraceContext} from "../tracing/tracer.js";
+import {EventSource, makeEmitter} from "../core/events.js";
 
 export type MakeProducerOpts<T> = {
     client: IGlideKitClient;
@@ -7,63 +12,146 @@ export type MakeProducerOpts<T> = {
     codec: Codec<T>;
     defaultType?: string;
     idempotency?: { ttlSec: number };
+    retryZset?: string;       // where delayed sends are scheduled, default `${stream}:retry`
     log?: LoggerLike;
+    metrics?: MetricsSink;
+    tracer?: TracerLike;      // wraps each send in a producer span and injects its traceparent into the headers
+    claimCheck?: ClaimCheckOpts;  // store large payloads under their own key; the entry carries a `payloadRef`
 };
 
-export interface Producer<T> {
-    send: (payload: T, opts?: { type?: string; key?: string }) => Promise<string | null>;
+export type SendOpts = { type?: string; key?: string };
+
+export type ScheduleOpts = SendOpts & (
+    | { delayMs: Millis; runAt?: undefined }
+    | { runAt: Date; delayMs?: undefined }
+    );
+
+export interface ScheduledSend {
+    member: string;           // retry ZSET member; keep it to cancel later via Producer.cancel
+    runAt: number;            // epoch ms
+    cancel: () => Promise<boolean>;
 }
 
-const idempotencyScript = new Script(
-    `
-if ((#ARGV - 2) % 2) ~= 0 then
-  return server.error_reply('XADD fields must be key/value pairs')
-end
-
-local reserved = server.call('SET', KEYS[1], 'PENDING', 'NX', 'EX', ARGV[1])
-if reserved then
-  -- First time: enqueue, then store final id
-  local id = server.call('XADD', ARGV[2], '*', unpack(ARGV, 3, #ARGV))
-  server.call('SET', KEYS[1], id, 'EX', ARGV[1])
-  return id
-else
-  -- Duplicate: return whatever’s there ("PENDING" or a real id)
-  local val = server.call('GET', KEYS[1])
-  return val or ''
-end`)
+type ProducerEventBase<T> = { stream: string; envelope: Envelope<T>; at: number };   // at: epoch ms
+
+export type ProducerEvents<T> = {
+    sent: ProducerEventBase<T> & { id: string };                      // added to the stream
+    scheduled: ProducerEventBase<T> & { member: string; runAt: number };   // added to the retry ZSET
+    error: ProducerEventBase<T> & { err: unknown };                  // the send threw
+};
+
+export interface Producer<T> extends EventSource<ProducerEvents<T>> {
+    send: {
+        (payload: T, opts: ScheduleOpts): Promise<ScheduledSend>;
+        (payload: T, opts?: SendOpts): Promise<string | null>;
+    };
+    // Removes a scheduled send before the retry daemon promotes it; false if it already fired.
+    cancel: (member: string) => Promise<boolean>;
+}
 
 export function makeProducer<T>(opts: MakeProducerOpts<T>): Producer<T> {
     const { client, stream, codec, defaultType, log } = opts;
+    const retryZset = opts.retryZset ?? `${stream}:retry`;
+    const metrics = opts.metrics ?? noopMetrics;
+    const events = makeEmitter<ProducerEvents<T>>((event, err) => log?.error("event listener error", { event, err }));
 
-    return {
-        async send(payload, sendOpts) {
-            const headers: MessageHeaders = {
-                type: sendOpts?.type ?? defaultType ?? "msg",
-                attempt: 0,
-                enqueuedAt: Date.now(),
-                key: sendOpts?.key,
-            };
-
-            const env: Envelope<T> = { headers, payload };
-            log?.debug("send", { stream, type: headers.type, key: headers.key });
-
-            if (headers.key && opts.idempotency) {
-                const idempotencyKey = `idempotency:${stream}:${headers.type}:${headers.key}`;
-
-                const fields: string[] = [];
-                fields.push(opts.idempotency.ttlSec.toString(), stream);
-                for (const [key, value] of Object.entries(codec.encode(env))) fields.push(key, value);
-
-                const result =  await client.invokeScript(idempotencyScript,
-                    {keys: [idempotencyKey], args: fields});
-                if (typeof result === "string") {
-                    return result;
-                } else {
-                    return result?.toString() ?? null;
+    async function cancel(member: string): Promise<boolean> {
+        if (!client.zrem) throw new Error("cancel requires client.zrem");
+        const removed = await client.zrem(retryZset, [member]);
+        log?.debug("scheduled send cancelled", { stream, removed });
+        return removed > 0;
+    }
+
+    async function schedule(env: Envelope<T>, runAt: number, idempotencyKey?: string): Promise<ScheduledSend> {
+        // Same member format the consumer uses for retries, so startRetryDaemon promotes it unchanged.
+        const fields = await checkIn(client, stream, codec.encode(env), opts.claimCheck,
+            { extraTtlSec: Math.max(0, runAt - Date.now()) / 1000 });
+        const member = JSON.stringify({ stream, fields: toJsonFields(fields) });
+        const keys = idempotencyKey && opts.idempotency ? [retryZset, idempotencyKey] : [retryZset];
+        const result = await client.invokeScript(scheduleSendScript, {
+            keys,
+            args: [String(runAt), member, String(opts.idempotency?.ttlSec ?? 0)],
+        });
+        const scheduled = typeof result === "string" ? result : result?.toString() ?? member;
+        if (scheduled === member) {
+            metrics.increment("produced_total", {stream, type: env.headers.type});
+            events.emit("scheduled", { stream, envelope: env, member, runAt, at: Date.now() });
+        }
+        return { member: scheduled, runAt, cancel: () => cancel(scheduled) };
+    }
+
+    async function send(payload: T, sendOpts?: SendOpts | ScheduleOpts): Promise<string | null | ScheduledSend> {
+        const headers: MessageHeaders = {
+            type: sendOpts?.type ?? defaultType ?? "msg",
+            attempt: 0,
+            enqueuedAt: Date.now(),
+            key: sendOpts?.key,
+        };
+        const env: Envelope<T> = { headers, payload };
+        try {
+            if (!opts.tracer) return await deliver(env, sendOpts);
+
+            return await opts.tracer.startActiveSpan(`${stream} send`, {
+                kind: "producer",
+                attributes: { "messaging.system": "valkey", "messaging.destination.name": stream, "glidekit.type": headers.type },
+            }, async (span) => {
+                try {
+                    return await deliver({ headers: withTraceContext(headers, span.context()), payload }, sendOpts);
+                } catch (err) {
+                    span.recordException(err);
+                    span.setError(err instanceof Error ? err.message : String(err));
+                    throw err;
                 }
-            } else {
-                return await client.xadd(stream, codec.encode(env));
+            });
+        } catch (err) {
+            events.emit("error", { stream, envelope: env, err, at: Date.now() });
+            throw err;
+        }
+    }
+
+    async function deliver(env: Envelope<T>, sendOpts?: SendOpts | ScheduleOpts): Promise<string | null | ScheduledSend> {
+        const { headers } = env;
+        log?.debug("send", { stream, type: headers.type, key: headers.key });
+
+        const idempotencyKey = headers.key && opts.idempotency
+            ? `idempotency:${stream}:${headers.type}:${headers.key}`
+            : undefined;
+
+        if (sendOpts && "runAt" in sendOpts && sendOpts.runAt !== undefined) {
+            return schedule(env, sendOpts.runAt.getTime(), idempotencyKey);
+        }
+        if (sendOpts && "delayMs" in sendOpts && sendOpts.delayMs !== undefined) {
+            return schedule(env, headers.enqueuedAt + sendOpts.delayMs, idempotencyKey);
+        }
+
+        const encoded = await checkIn(client, stream, codec.encode(env), opts.claimCheck);
+        if (idempotencyKey && opts.idempotency) {
+            const fields: FieldValue[] = [];
+            fields.push(opts.idempotency.ttlSec.toString());
+            for (const [key, value] of Object.entries(encoded)) fields.push(key, value);
+
+            const result =  await client.invokeScript(idempotencyScript,
+                {keys: [idempotencyKey, stream], args: fields});
+            const id = typeof result === "string" ? result : result?.toString() ?? null;
+            if (id && id !== "PENDING") {
+                metrics.increment("produced_total", {stream, type: headers.type});
+                events.emit("sent", {stream, envelope: env, id, at: Date.now()});
+            }
+            return id;
+        } else {
+            const id = await client.xadd(stream, encoded);
+            if (id) {
+                metrics.increment("produced_total", {stream, type: headers.type});
+                events.emit("sent", {stream, envelope: env, id, at: Date.now()});
             }
-        },
+            return id;
+        }
+    }
+
+    return {
+        on: events.on,
+        off: events.off,
+        send: send as Producer<T>["send"],
+        cancel,
     };
 }
@@ -0,0 +1,18 @@
+import {IGlideKitClient} from "../core/types.js";
+
+export type JobProgress = {
+    pct: number;                  // 0..100
+    data?: unknown;               // whatever the handler passed to reportProgress
+    consumer: string;
+    updatedAt: number;            // epoch ms
+};
+
+export function progressKey(stream: string, id: string): string {
+    return `${stream}:progress:${id}`;
+}
+
+// Latest progress a handler reported for the message `id` on `stream`, or null if none (or expired).
+export async function getJobProgress(opts: { client: IGlideKitClient; stream: string; id: string }): Promise<JobProgress | null> {
+    const raw = await opts.client.get(progressKey(opts.stream, opts.id));
+    return raw ? JSON.parse(raw) as JobProgress : null;
+}
@@ -1,16 +1,31 @@
 import { IGlideKitClient } from "../core/types.js";
+import { promoteDueScript } from "./scripts.js";
+import { MetricsSink, noopMetrics } from "../metrics/metricsSink.js";
+import { EventSource, makeEmitter } from "../core/events.js";
 
 export type RetryDaemonOpts = {
     client: IGlideKitClient;
     retryZset: string;        // e.g., orders:retry
     targetStream: string;     // e.g., orders
+    streams?: string[];       // other streams the zset's members may name; the rest are dead-lettered
     maxBatch?: number;        // how many to move per tick
     tickMs?: number;          // sleep between ticks
     jitterPct?: number;       // 0..1 add +- jitter to tick
     log?: { info: Function; warn: Function; error: Function; debug: Function };
+    metrics?: MetricsSink;    // reports retry_queue_depth after each tick
 };
 
-export type RetryDaemon = {
+type DaemonEventBase = { retryZset: string; targetStream: string; at: number };
+
+export type RetryDaemonEvents = {
+    promoted: DaemonEventBase & { count: number; remaining: number };
+    dlq: DaemonEventBase & { count: number };      // members that did not decode, moved to `<target>:dlq`
+    error: DaemonEventBase & { err: unknown };
+    idle: DaemonEventBase;                         // a tick found nothing due; once per idle stretch
+    stopped: DaemonEventBase;
+};
+
+export type RetryDaemon = EventSource<RetryDaemonEvents> & {
     start(): void;
     stop(): Promise<void>; // resolves when loop has exited
     isRunning(): boolean;
@@ -21,64 +36,39 @@ export function startRetryDaemon(opts: RetryDaemonOpts): RetryDaemon {
         client,
         retryZset,
         targetStream,
+        streams = [],
         maxBatch = 256,
         tickMs = 250,
         jitterPct = 0.2,
         log = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} },
+        metrics = noopMetrics,
     } = opts;
 
+    const events = makeEmitter<RetryDaemonEvents>((event, err) => log.error("event listener error", { event, err }));
+    const base = () => ({ retryZset, targetStream, at: Date.now() });
     let running = false;
+    let idle = false;
     let loopPromise: Promise<void> | null = null;
 
     async function tickOnce() {
-        const now = Date.now();
-
-        const ready: Array<{ score: number; member: string }> = [];
-
-        if (client.zpopmin) {
-            // Pop up to maxBatch entries whose score <= now
-            for (let i = 0; i < maxBatch; i++) {
-                const items = await client.zpopmin(retryZset);
-                if (!items || items.length === 0) break;
-                const first = items[0];
-                if (first.score > now) {
-                    // Not ready yet; reinsert and exit (best-effort)
-                    await client.zadd?.(retryZset, [first]);
-                    break;
-                }
-                ready.push(first);
-                if (items.length > 1) {
-                    // If binding returns more than one, push the rest back (conservative)
-                    const rest = items.slice(1);
-                    if (rest.length) await client.zadd?.(retryZset, rest);
-                }
-            }
-        } else if (client.zrangebyscore && client.zrem) {
-            const items = await client.zrangebyscore(retryZset, -Infinity as any, now, {
-                limit: maxBatch,
-            });
-            if (items?.length) {
-                const members = items.map((x) => x.member);
-                const removed = await client.zrem(retryZset, members);
-                if (removed > 0) ready.push(...items.slice(0, removed));
-            }
-        } else {
-            log.warn("retry-daemon: no ZPOP or ZRANGEBYSCORE available; disabled");
-            return;
+        // ZRANGEBYSCORE + XADD + ZREM run as one script: a member is promoted exactly once, even with
+        // several daemons on the same zset or a crash mid-tick.
+        const result = await client.invokeScript(promoteDueScript, {
+            keys: [retryZset, targetStream, `${targetStream}:dlq`, ...streams.filter((s) => s !== targetStream)],
+            args: [String(Date.now()), String(maxBatch)],
+        });
+        const [promoted, invalid, remaining] = Array.isArray(result) ? result.map(Number) : [0, 0, NaN];
+        if (!Number.isNaN(remaining)) metrics.gauge("retry_queue_depth", { stream: targetStream }, remaining);
+        if (promoted > 0) {
+            log.debug("retry->xadd", {retryZset, promoted});
+            events.emit("promoted", { ...base(), count: promoted, remaining });
         }
-
-        for (const { score, member } of ready) {
-            try {
-                log.debug("member: ", member);
-                const parsed = JSON.parse(member) as { stream: string; fields: Record<string, string> };
-                const dest = parsed.stream || targetStream;
-                await client.xadd(dest, parsed.fields);
-                log.debug("retry->xadd", { dest });
-            } catch (err) {
-                log.error("retry-daemon parse/enqueue error", { err });
-                await client.zadd?.(retryZset, [{ score, member }]);
-            }
+        if (invalid > 0) {
+            log.error("retry-daemon: invalid members moved to DLQ", {retryZset, invalid});
+            events.emit("dlq", { ...base(), count: invalid });
         }
+        if (promoted + invalid === 0 && !idle) events.emit("idle", base());
+        idle = promoted + invalid === 0;
     }
 
     async function loop() {
@@ -90,6 +80,7 @@ export function startRetryDaemon(opts: RetryDaemonOpts): RetryDaemon {
                 } catch (err) {
                     // Never let the loop die on a single tick failure
                     log.error("retry-daemon tick error", { err });
+                    events.emit("error", { ...base(), err });
                     // brief backoff to avoid hot error loops
                     await new Promise((r) => setTimeout(r, 200));
                 }
@@ -108,6 +99,8 @@ export function startRetryDaemon(opts: RetryDaemonOpts): RetryDaemon {
     }
 
     return {
+        on: events.on,
+        off: events.off,
         start() {
             if (loopPromise) return;
             if (running) return;
@@ -118,6 +111,7 @@ export function startRetryDaemon(opts: RetryDaemonOpts): RetryDaemon {
             running = false;
             await loopPromise; // wait for exit
             loopPromise = null;
+            events.emit("stopped", base());
         },
         isRunning() {
             return !!loopPromise && running;
@@ -0,0 +1,129 @@
+import {MessageHeaders, RetryPolicy} from "../core/types.js";
+import {Handler} from "./consumer.js";
+import {EventSource} from "../core/events.js";
+import {makeProducer, MakeProducerOpts, Producer, ProducerEvents, ScheduledSend, ScheduleOpts, SendOpts} from "./producer.js";
+
+// Maps each message `type` to its payload, e.g. { "email.send": EmailJob; "sms.send": SmsJob }
+export type JobMap = Record<string, unknown>;
+
+export type JobPayload<Jobs extends JobMap> = Jobs[keyof Jobs & string];
+
+// What to do with a message whose type has no route. "retry" hands the error to the retry policy.
+export type UnknownTypeAction = "dlq" | "ack" | "retry";
+
+export class UnknownMessageTypeError extends Error {
+    constructor(readonly type: string) {
+        super(`no route for message type '${type}'`);
+        this.name = "UnknownMessageTypeError";
+    }
+}
+
+export type RouteOpts = {
+    retryPolicy?: RetryPolicy;
+    timeoutMs?: number;           // handler timeout for this type
+};
+
+export interface Router<Jobs extends JobMap> {
+    on<K extends keyof Jobs & string>(type: K, handler: Handler<Jobs[K]>, opts?: RouteOpts): Router<Jobs>;
+
+    unknown(action: UnknownTypeAction): Router<Jobs>;
+
+    // Pass as makeConsumer's `handler`.
+    handler: Handler<JobPayload<Jobs>>;
+
+    // Pass as makeConsumer's `retryPolicy`: per-type policies where given, `fallback` otherwise.
+    retryPolicy(fallback: RetryPolicy): RetryPolicy;
+
+    // Pass as makeConsumer's `handlerTimeoutMs`: per-type timeouts where given, `fallback` otherwise.
+    handlerTimeoutMs(fallback?: number): (headers: MessageHeaders) => number | undefined;
+}
+
+/**
+ * Routes messages to a typed handler per `headers.type`:
+ *
+ *   const router = makeRouter<Jobs>()
+ *       .on("email.send", async (job) => ...)          // job: Jobs["email.send"]
+ *       .on("sms.send", sendSms, {retryPolicy: smsPolicy, timeoutMs: 5_000})
+ *       .unknown("dlq");
+ *
+ *   makeConsumer<JobPayload<Jobs>>({..., handler: router.handler, retryPolicy: router.retryPolicy(defaultPolicy)});
+ */
+export function makeRouter<Jobs extends JobMap>(): Router<Jobs> {
+    const routes = new Map<string, RouteOpts & { handler: Handler<JobPayload<Jobs>> }>();
+    let unknownAction: UnknownTypeAction = "dlq";
+
+    const router: Router<Jobs> = {
+        on(type, handler, opts) {
+            if (routes.has(type)) throw new Error(`route for '${type}' already registered`);
+            routes.set(type, {
+                // only messages whose headers.type is `type` reach it, and those carry Jobs[K]
+                handler: (payload, ctx) => handler(payload as Jobs[typeof type], ctx),
+                retryPolicy: opts?.retryPolicy,
+                timeoutMs: opts?.timeoutMs,
+            });
+            return router;
+        },
+
+        unknown(action) {
+            unknownAction = action;
+            return router;
+        },
+
+        async handler(payload, ctx) {
+            const route = routes.get(ctx.headers.type);
+            if (route) return route.handler(payload, ctx);
+            switch (unknownAction) {
+                case "ack":
+                    return {action: "ack"};
+                case "dlq":
+                    return {action: "dlq", reason: `unknown-type(${ctx.headers.type})`};
+                case "retry":
+                    throw new UnknownMessageTypeError(ctx.headers.type);
+            }
+        },
+
+        retryPolicy(fallback) {
+            return {
+                next: (headers, err) => (routes.get(headers.type)?.retryPolicy ?? fallback).next(headers, err),
+            };
+        },
+
+        handlerTimeoutMs(fallback) {
+            return (headers) => routes.get(headers.type)?.timeoutMs ?? fallback;
+        },
+    };
+    return router;
+}
+
+export type MakeTypedProducerOpts<Jobs extends JobMap> = Omit<MakeProducerOpts<JobPayload<Jobs>>, "defaultType">;
+
+export interface TypedProducer<Jobs extends JobMap> extends EventSource<ProducerEvents<JobPayload<Jobs>>> {
+    send: {
+        <K extends keyof Jobs & string>(type: K, payload: Jobs[K], opts: ScheduleOpts): Promise<ScheduledSend>;
+        <K extends keyof Jobs & string>(type: K, payload: Jobs[K], opts?: SendOpts): Promise<string | null>;
+    };
+    cancel: Producer<JobPayload<Jobs>>["cancel"];
+}
+
+function isScheduled(opts?: SendOpts | ScheduleOpts): opts is ScheduleOpts {
+    return opts !== undefined && ("runAt" in opts && opts.runAt !== undefined || "delayMs" in opts && opts.delayMs !== undefined);
+}
+
+// A producer over the same job map as a router: the payload type follows from the `type` argument.
+export function makeTypedProducer<Jobs extends JobMap>(opts: MakeTypedProducerOpts<Jobs>): TypedProducer<Jobs> {
+    const producer = makeProducer<JobPayload<Jobs>>(opts);
+
+    function send<K extends keyof Jobs & string>(type: K, payload: Jobs[K], opts: ScheduleOpts): Promise<ScheduledSend>;
+    function send<K extends keyof Jobs & string>(type: K, payload: Jobs[K], opts?: SendOpts): Promise<string | null>;
+    function send<K extends keyof Jobs & string>(type: K, payload: Jobs[K], sendOpts?: SendOpts | ScheduleOpts) {
+        if (isScheduled(sendOpts)) return producer.send(payload, {...sendOpts, type});
+        return producer.send(payload, {...sendOpts, type});
+    }
+
+    return {
+        on: producer.on,
+        off: producer.off,
+        send,
+        cancel: producer.cancel,
+    };
+}
@@ -0,0 +1,222 @@
+import {Script} from "@valkey/valkey-glide";
+
+// Every key a script touches is passed in KEYS, never in ARGV, so the scripts run on a cluster. There all the
+// keys of one call must hash to the same slot: give the stream a hash tag (e.g. `{orders}`), and the keys
+// derived from it (`{orders}:retry`, `{orders}:dlq`, holds, idempotency keys) follow.
+
+// KEYS[1] = idempotency key, KEYS[2] = stream
+// ARGV[1] = ttl seconds, ARGV[2..] = XADD field/value pairs
+export const idempotencyScript = new Script(
+    `
+if ((#ARGV - 1) % 2) ~= 0 then
+  return server.error_reply('XADD fields must be key/value pairs')
+end
+
+local reserved = server.call('SET', KEYS[1], 'PENDING', 'NX', 'EX', ARGV[1])
+if reserved then
+  -- First time: enqueue, then store final id
+  local id = server.call('XADD', KEYS[2], '*', unpack(ARGV, 2, #ARGV))
+  server.call('SET', KEYS[1], id, 'EX', ARGV[1])
+  return id
+else
+  -- Duplicate: return whatever’s there ("PENDING" or a real id)
+  local val = server.call('GET', KEYS[1])
+  return val or ''
+end`)
+
+// Hands an ordering hold to the oldest message parked behind it: the message is re-enqueued carrying the token
+// (and the hold key, for paths that cannot recompute it) and becomes the new holder. With nothing parked the
+// hold is dropped along with its entry in the parked index. Shared by the ordering scripts below, which all
+// take KEYS[1] = hold key, KEYS[2] = parked list, KEYS[3] = stream, KEYS[4] = parked index (ZSET of hold keys).
+const handOnHold = `
+local function handOn(token, ttl)
+  local nextMember = server.call('LPOP', KEYS[2])
+  if not nextMember then
+    server.call('DEL', KEYS[1])
+    server.call('ZREM', KEYS[4], KEYS[1])
+    return 0
+  end
+  local parked = cjson.decode(nextMember)
+  parked.fields.orderToken = token
+  parked.fields.orderHold = KEYS[1]
+  local fields = {}
+  for k, v in pairs(parked.fields) do
+    table.insert(fields, k)
+    table.insert(fields, v)
+  end
+  server.call('XADD', KEYS[3], '*', unpack(fields))
+  server.call('SET', KEYS[1], token, 'EX', ttl)
+  return 1
+end`;
+
+// Per-key ordering across retries: while KEYS[1] (the hold) names another token, later messages for the
+// same key are parked in the KEYS[2] list and acked instead of being handled out of order. If the hold is
+// gone (expired, or its holder was lost) while messages are still parked, a retry carrying a token takes it
+// back, as it is older than them; any other message queues behind them and the oldest takes the hold.
+// ARGV[1] = token carried by the message ('' if none), ARGV[2] = parked member ({stream, fields} JSON),
+// ARGV[3] = group, ARGV[4] = message id, ARGV[5] = hold ttl seconds, ARGV[6] = now (epoch ms)
+export const orderingAdmitScript = new Script(
+    `${handOnHold}
+local hold = server.call('GET', KEYS[1])
+if hold == ARGV[1] then
+  return 'run'
+end
+if not hold then
+  if server.call('LLEN', KEYS[2]) == 0 then
+    return 'run'
+  end
+  if ARGV[1] ~= '' then
+    server.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[5])
+    return 'run'
+  end
+end
+server.call('RPUSH', KEYS[2], ARGV[2])
+server.call('ZADD', KEYS[4], ARGV[6], KEYS[1])
+server.call('XACK', KEYS[3], ARGV[3], ARGV[4])
+if not hold then
+  handOn(ARGV[4], ARGV[5])
+end
+return 'parked'`)
+
+// Releases the hold once its message is finally acked or dead-lettered, handing it to the next parked message.
+// ARGV[1] = token, ARGV[2] = hold ttl seconds
+export const orderingReleaseScript = new Script(
+    `${handOnHold}
+if server.call('GET', KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+return handOn(ARGV[1], ARGV[2])`)
+
+// Drains a parked list whose hold expired without being released and that no new message has touched since.
+// ARGV[1] = new token, ARGV[2] = hold ttl seconds
+// Returns 1 if a parked message was re-enqueued
+export const orderingSweepScript = new Script(
+    `${handOnHold}
+if server.call('EXISTS', KEYS[1]) == 1 then
+  return 0
+end
+return handOn(ARGV[1], ARGV[2])`)
+
+// Schedules a retry and acks the original delivery in one step, so a crash can neither lose nor duplicate it.
+// KEYS[1] = retry zset, KEYS[2] = stream, optional KEYS[3] = ordering hold key
+// ARGV[1] = score (due at, epoch ms), ARGV[2] = member ({stream, fields} JSON), ARGV[3] = group,
+// ARGV[4] = message id, ARGV[5] = hold token, ARGV[6] = hold ttl seconds
+export const scheduleRetryScript = new Script(
+    `
+server.call('ZADD', KEYS[1], ARGV[1], ARGV[2])
+if #KEYS > 2 then
+  server.call('SET', KEYS[3], ARGV[5], 'EX', ARGV[6])
+end
+return server.call('XACK', KEYS[2], ARGV[3], ARGV[4])`)
+
+// Moves up to ARGV[2] due members from the retry zset into their streams. Each member is added and
+// removed in the same script, so concurrent daemons cannot both promote it. Members that do not decode or
+// whose fields XADD would reject (empty, or not all strings) are removed and recorded in the target stream's
+// DLQ instead of failing the script on every tick, and so are members naming a stream that was not passed in KEYS.
+// KEYS[1] = retry zset, KEYS[2] = default target stream, KEYS[3] = its DLQ, KEYS[4..] = other streams members name
+// ARGV[1] = now (epoch ms), ARGV[2] = batch limit
+// Returns {promoted, invalid, remaining zset size}
+export const promoteDueScript = new Script(
+    `
+local streams = {}
+for i = 2, #KEYS do
+  if i ~= 3 then streams[KEYS[i]] = true end
+end
+local function xaddFields(raw)
+  if type(raw) ~= 'table' then return nil end
+  local fields = {}
+  for k, v in pairs(raw) do
+    if type(k) ~= 'string' or type(v) ~= 'string' then return nil end
+    table.insert(fields, k)
+    table.insert(fields, v)
+  end
+  if #fields == 0 then return nil end
+  return fields
+end
+local due = server.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+local promoted = 0
+local invalid = 0
+for _, member in ipairs(due) do
+  local ok, parsed = pcall(cjson.decode, member)
+  local dest = ok and type(parsed) == 'table' and (parsed.stream or KEYS[2])
+  local fields = dest and xaddFields(parsed.fields)
+  if fields and streams[dest] then
+    server.call('XADD', dest, '*', unpack(fields))
+    promoted = promoted + 1
+  else
+    local reason = fields and 'undeclared-stream' or 'invalid-retry-member'
+    server.call('XADD', KEYS[3], '*', 'raw', member, 'error', cjson.encode({reason = reason}))
+    invalid = invalid + 1
+  end
+  server.call('ZREM', KEYS[1], member)
+end
+return {promoted, invalid, server.call('ZCARD', KEYS[1])}`)
+
+// Schedules a new message into the retry zset for later promotion, optionally guarded by an idempotency key.
+// A duplicate returns the member that was scheduled first instead of adding another one.
+// KEYS[1] = retry zset, optional KEYS[2] = idempotency key
+// ARGV[1] = score (run at, epoch ms), ARGV[2] = member ({stream, fields} JSON), ARGV[3] = idempotency ttl seconds
+export const scheduleSendScript = new Script(
+    `
+if #KEYS > 1 then
+  local reserved = server.call('SET', KEYS[2], ARGV[2], 'NX', 'EX', ARGV[3])
+  if not reserved then
+    return server.call('GET', KEYS[2]) or ''
+  end
+end
+server.call('ZADD', KEYS[1], ARGV[1], ARGV[2])
+return ARGV[2]`)
+
+// Records the latest tick a cron job has run for, never moving it backwards when instances race.
+// KEYS[1] = last-run key
+// ARGV[1] = tick (epoch ms)
+export const cronMarkRunScript = new Script(
+    `
+local current = tonumber(server.call('GET', KEYS[1]) or '0')
+if tonumber(ARGV[1]) > current then
+  server.call('SET', KEYS[1], ARGV[1])
+  return 1
+end
+return 0`)
+
+// Moves one DLQ entry back to its source stream. The XDEL decides who wins, so two operators requeueing
+// the same entry at once produce a single message.
+// KEYS[1] = dlq stream, KEYS[2] = target stream
+// ARGV[1] = dlq entry id, ARGV[2..] = XADD field/value pairs
+// Returns the new stream id, or '' if the entry was already gone
+export const dlqRequeueScript = new Script(
+    `
+if server.call('XDEL', KEYS[1], ARGV[1]) == 0 then
+  return ''
+end
+return server.call('XADD', KEYS[2], '*', unpack(ARGV, 2, #ARGV))`)
+
+// Re-enqueues a claimed message: acks it in KEYS[1] and adds the new fields to KEYS[2] (the same stream, or
+// its DLQ). The XACK decides who wins, so an entry that is no longer pending is not added twice.
+// KEYS[1] = source stream, KEYS[2] = destination stream
+// ARGV[1] = group, ARGV[2] = claimed id, ARGV[3..] = XADD field/value pairs
+// Returns the new stream id, or '' if the entry was no longer pending
+export const requeueClaimedScript = new Script(
+    `
+if server.call('XACK', KEYS[1], ARGV[1], ARGV[2]) == 0 then
+  return ''
+end
+return server.call('XADD', KEYS[2], '*', unpack(ARGV, 3, #ARGV))`)
+
+// Lease heartbeat: resets the idle time of entries still owned by ARGV[2], so PEL claimers leave long-running
+// handlers alone. Entries another consumer already claimed are skipped rather than stolen back. JUSTID keeps
+// the delivery counter unchanged.
+// KEYS[1] = stream
+// ARGV[1] = group, ARGV[2] = consumer, ARGV[3..] = ids
+// Returns the ids that were extended
+export const leaseExtendScript = new Script(
+    `
+local extended = {}
+for i = 3, #ARGV do
+  local pending = server.call('XPENDING', KEYS[1], ARGV[1], ARGV[i], ARGV[i], 1)
+  if pending[1] and pending[1][2] == ARGV[2] then
+    server.call('XCLAIM', KEYS[1], ARGV[1], ARGV[2], 0, ARGV[i], 'JUSTID')
+    table.insert(extended, ARGV[i])
+  end
+end
+return extended`)
@@ -0,0 +1,830 @@
+import {GlideReturnType, Script} from "@valkey/valkey-glide";
+import {ConditionalSet, Decoder, FieldValue, IGlideKitClient, StreamFields, XReadGroupResult} from "../core/types.js";
+import {fieldText, restoreFields} from "../core/fields.js";
+import {
+    cronMarkRunScript,
+    dlqRequeueScript,
+    idempotencyScript,
+    leaseExtendScript,
+    orderingAdmitScript,
+    orderingReleaseScript,
+    orderingSweepScript,
+    promoteDueScript,
+    requeueClaimedScript,
+    scheduleRetryScript,
+    scheduleSendScript,
+} from "../stream/scripts.js";
+
+export type InMemoryScriptContext = {
+    // Mirrors `server.call` inside Lua: runs a command synchronously against the fake keyspace.
+    call: (command: string, ...args: FieldValue[]) => GlideReturnType;
+    now: () => number;
+};
+
+// ARGV values are Buffers where the caller passed binary field values, strings otherwise.
+export type InMemoryScriptHandler = (ctx: InMemoryScriptContext, keys: string[], args: FieldValue[]) => GlideReturnType;
+
+export type InMemoryGlideKitClientOpts = {
+    clock?: () => number;     // defaults to Date.now
+};
+
+type StreamEntry = { id: string; fields: StreamFields };
+
+type PendingEntry = { id: string; consumer: string; deliveredAt: number; deliveries: number };
+
+type ConsumerGroup = {
+    name: string;
+    lastDeliveredId: string;
+    entriesRead: number;
+    pel: Map<string, PendingEntry>;
+    consumers: Map<string, { seenAt: number }>;
+};
+
+type StoredValue =
+    | { kind: "string"; value: string }
+    | { kind: "stream"; entries: StreamEntry[]; lastId: string; groups: Map<string, ConsumerGroup> }
+    | { kind: "zset"; members: Map<string, number> }
+    | { kind: "list"; items: string[] };
+
+type Stored = StoredValue & { expiresAt?: number };
+
+type Waiter = { keys: string[]; wake: () => void };
+
+// handOn from the ordering scripts: keys = hold, parked list, stream, parked index.
+function handOnHold(ctx: InMemoryScriptContext, keys: string[], token: string, ttlSec: FieldValue): number {
+    const nextMember = ctx.call("LPOP", keys[1]);
+    if (nextMember === null) {
+        ctx.call("DEL", keys[0]);
+        ctx.call("ZREM", keys[3], keys[0]);
+        return 0;
+    }
+    const parked = JSON.parse(nextMember as string) as { fields: Record<string, string> };
+    parked.fields.orderToken = token;
+    parked.fields.orderHold = keys[0];
+    ctx.call("XADD", keys[2], "*", ...Object.entries(parked.fields).flat());
+    ctx.call("SET", keys[0], token, "EX", ttlSec);
+    return 1;
+}
+
+// xaddFields from promoteDueScript: the XADD arguments of a member's fields, or null if XADD would reject them.
+function xaddFields(raw: unknown): string[] | null {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return null;
+    const entries = Object.entries(raw);
+    if (entries.length === 0 || entries.some(([, value]) => typeof value !== "string")) return null;
+    return entries.flat() as string[];
+}
+
+const builtinScripts: Array<[Script, InMemoryScriptHandler]> = [
+    [idempotencyScript, (ctx, keys, args) => {
+        if ((args.length - 1) % 2 !== 0) throw new Error("XADD fields must be key/value pairs");
+        const [ttlSec, ...fields] = args;
+        const reserved = ctx.call("SET", keys[0], "PENDING", "NX", "EX", ttlSec);
+        if (reserved) {
+            const id = ctx.call("XADD", keys[1], "*", ...fields) as string;
+            ctx.call("SET", keys[0], id, "EX", ttlSec);
+            return id;
+        }
+        return ctx.call("GET", keys[0]) ?? "";
+    }],
+    [orderingAdmitScript, (ctx, keys, args) => {
+        const [token, member, group, id, ttlSec, now] = args.map((arg) => fieldText(arg));
+        const hold = ctx.call("GET", keys[0]);
+        if (hold === token) return "run";
+        if (hold === null) {
+            if (ctx.call("LLEN", keys[1]) === 0) return "run";
+            if (token !== "") {
+                ctx.call("SET", keys[0], token, "EX", ttlSec);
+                return "run";
+            }
+        }
+        ctx.call("RPUSH", keys[1], member);
+        ctx.call("ZADD", keys[3], now, keys[0]);
+        ctx.call("XACK", keys[2], group, id);
+        if (hold === null) handOnHold(ctx, keys, id, ttlSec);
+        return "parked";
+    }],
+    [orderingReleaseScript, (ctx, keys, args) => {
+        const [token, ttlSec] = args;
+        if (ctx.call("GET", keys[0]) !== fieldText(token)) return 0;
+        return handOnHold(ctx, keys, fieldText(token), ttlSec);
+    }],
+    [orderingSweepScript, (ctx, keys, args) => {
+        const [token, ttlSec] = args;
+        if (ctx.call("EXISTS", keys[0]) === 1) return 0;
+        return handOnHold(ctx, keys, fieldText(token), ttlSec);
+    }],
+    [scheduleRetryScript, (ctx, keys, args) => {
+        const [score, member, group, id, token, ttlSec] = args;
+        ctx.call("ZADD", keys[0], score, member);
+        if (keys.length > 2) ctx.call("SET", keys[2], token, "EX", ttlSec);
+        return ctx.call("XACK", keys[1], group, id);
+    }],
+    [scheduleSendScript, (ctx, keys, args) => {
+        const [score, member, ttlSec] = args;
+        if (keys.length > 1) {
+            const reserved = ctx.call("SET", keys[1], member, "NX", "EX", ttlSec);
+            if (!reserved) return ctx.call("GET", keys[1]) ?? "";
+        }
+        ctx.call("ZADD", keys[0], score, member);
+        return member;
+    }],
+    [promoteDueScript, (ctx, keys, args) => {
+        const [now, limit] = args;
+        const [zset, targetStream, dlqStream, ...others] = keys;
+        const streams = new Set([targetStream, ...others]);
+        const due = ctx.call("ZRANGEBYSCORE", zset, "-inf", now, "LIMIT", "0", limit) as string[];
+        let promoted = 0;
+        let invalid = 0;
+        for (const member of due) {
+            let parsed: { stream?: string; fields?: unknown } | undefined;
+            try {
+                parsed = JSON.parse(member);
+            } catch {
+                parsed = undefined;
+            }
+            const dest = parsed?.stream ?? targetStream;
+            const fields = typeof parsed === "object" && parsed !== null ? xaddFields(parsed.fields) : null;
+            if (fields && streams.has(dest)) {
+                ctx.call("XADD", dest, "*", ...fields);
+                promoted++;
+            } else {
+                const reason = fields ? "undeclared-stream" : "invalid-retry-member";
+                ctx.call("XADD", dlqStream, "*", "raw", member, "error", JSON.stringify({reason}));
+                invalid++;
+            }
+            ctx.call("ZREM", zset, member);
+        }
+        return [promoted, invalid, ctx.call("ZCARD", zset)];
+    }],
+    [cronMarkRunScript, (ctx, keys, args) => {
+        const current = Number(ctx.call("GET", keys[0]) ?? "0");
+        if (Number(args[0]) > current) {
+            ctx.call("SET", keys[0], args[0]);
+            return 1;
+        }
+        return 0;
+    }],
+    [dlqRequeueScript, (ctx, keys, args) => {
+        const [dlqId, ...fields] = args;
+        if (ctx.call("XDEL", keys[0], dlqId) === 0) return "";
+        return ctx.call("XADD", keys[1], "*", ...fields);
+    }],
+    [requeueClaimedScript, (ctx, keys, args) => {
+        const [group, id, ...fields] = args;
+        if (ctx.call("XACK", keys[0], group, id) === 0) return "";
+        return ctx.call("XADD", keys[1], "*", ...fields);
+    }],
+    [leaseExtendScript, (ctx, keys, args) => {
+        const [group, consumer, ...ids] = args;
+        return ids.filter((id) => {
+            const [pending] = ctx.call("XPENDING", keys[0], group, id, id, "1") as Array<[string, string]>;
+            if (pending?.[1] !== consumer) return false;
+            ctx.call("XCLAIM", keys[0], group, consumer, "0", id, "JUSTID");
+            return true;
+        });
+    }],
+];
+
+function parseId(id: string): [number, number] {
+    const [ms, seq] = id.split("-");
+    return [Number(ms), seq === undefined ? 0 : Number(seq)];
+}
+
+function compareIds(a: string, b: string): number {
+    const [aMs, aSeq] = parseId(a);
+    const [bMs, bSeq] = parseId(b);
+    return aMs === bMs ? aSeq - bSeq : aMs - bMs;
+}
+
+function inRange(id: string, start: string, end: string): boolean {
+    const after = start === "-" || (start.startsWith("(")
+        ? compareIds(id, start.slice(1)) > 0
+        : compareIds(id, start) >= 0);
+    const before = end === "+" || (end.startsWith("(")
+        ? compareIds(id, end.slice(1)) < 0
+        : compareIds(id, end.includes("-") ? end : `${end}-${Number.MAX_SAFE_INTEGER}`) <= 0);
+    return after && before;
+}
+
+function parseScoreBound(bound: string): { value: number; exclusive: boolean } {
+    const exclusive = bound.startsWith("(");
+    const raw = exclusive ? bound.slice(1) : bound;
+    if (raw === "-inf") return {value: -Infinity, exclusive};
+    if (raw === "+inf" || raw === "inf") return {value: Infinity, exclusive};
+    return {value: Number(raw), exclusive};
+}
+
+/**
+ * A single-process fake of {@link IGlideKitClient} for unit tests. It models strings with expiry,
+ * streams with consumer groups and their PEL (idle time and delivery counts), ZSETs and lists. Lua scripts
+ * are emulated by registering a TypeScript handler per script hash; the scripts glide-kit ships with
+ * are registered up front.
+ *
+ * Time comes from `clock` (default `Date.now`) plus whatever has been added with {@link advanceTime}.
+ */
+export class InMemoryGlideKitClient implements IGlideKitClient {
+
+    private readonly data = new Map<string, Stored>();
+    private readonly scripts = new Map<string, InMemoryScriptHandler>();
+    private readonly waiters = new Set<Waiter>();
+    private readonly clock: () => number;
+    private offsetMs = 0;
+
+    constructor(opts: InMemoryGlideKitClientOpts = {}) {
+        this.clock = opts.clock ?? Date.now;
+        for (const [script, handler] of builtinScripts) {
+            this.registerScript(script, handler);
+        }
+    }
+
+    now(): number {
+        return this.clock() + this.offsetMs;
+    }
+
+    advanceTime(ms: number): void {
+        this.offsetMs += ms;
+    }
+
+    registerScript(script: Script, handler: InMemoryScriptHandler): void {
+        this.scripts.set(script.getHash(), handler);
+    }
+
+    flushAll(): void {
+        this.data.clear();
+    }
+
+    call(command: string, ...values: FieldValue[]): GlideReturnType {
+        // only XADD field values may be binary
+        const args = values.map((value) => fieldText(value));
+        switch (command.toUpperCase()) {
+            case "GET":
+                return this.getSync(args[0]);
+            case "SET":
+                return this.setCommand(args);
+            case "DEL":
+                return args.reduce((n, key) => n + this.delSync(key), 0);
+            case "EXISTS":
+                return args.reduce((n, key) => n + (this.lookup(key) ? 1 : 0), 0);
+            case "EXPIRE": {
+                const stored = this.lookup(args[0]);
+                if (!stored) return 0;
+                stored.expiresAt = this.now() + Number(args[1]) * 1000;
+                return 1;
+            }
+            case "RPUSH": {
+                const [key, ...values] = args;
+                let list = this.typed(key, "list");
+                if (!list) {
+                    list = {kind: "list", items: []};
+                    this.data.set(key, list);
+                }
+                list.items.push(...values);
+                return list.items.length;
+            }
+            case "LPOP": {
+                const list = this.typed(args[0], "list");
+                const item = list?.items.shift();
+                if (list && list.items.length === 0) this.data.delete(args[0]);
+                return item ?? null;
+            }
+            case "LLEN":
+                return this.typed(args[0], "list")?.items.length ?? 0;
+            case "XADD": {
+                const [stream, id] = args;
+                const pairs = values.slice(2);
+                if (pairs.length === 0 || pairs.length % 2 !== 0) throw new Error("ERR wrong number of arguments for 'xadd' command");
+                return this.xaddSync(stream, this.pairsToFields(pairs), id);
+            }
+            case "XACK": {
+                const [stream, group, ...ids] = args;
+                return this.xackSync(stream, group, ids);
+            }
+            case "XDEL": {
+                const [stream, ...ids] = args;
+                return this.xdelSync(stream, ids);
+            }
+            case "XLEN":
+                return this.xlenSync(args[0]);
+            case "XPENDING": {
+                // extended form only: key group [IDLE ms] start end count [consumer]
+                const [stream, group, ...rest] = args;
+                const idle = rest[0]?.toUpperCase() === "IDLE" ? Number(rest.splice(0, 2)[1]) : 0;
+                const [start, end, count, consumer] = rest;
+                return this.xpendingSync(stream, group, {idle, start, end, count: Number(count), consumer})
+                    .map((p) => [p.id, p.consumer, p.idle, p.deliveries]);
+            }
+            case "XCLAIM": {
+                // key group consumer min-idle id... [JUSTID]
+                const [stream, group, consumer, minIdle, ...rest] = args;
+                const justId = rest[rest.length - 1]?.toUpperCase() === "JUSTID";
+                const ids = justId ? rest.slice(0, -1) : rest;
+                const claimed = this.xclaimSync(stream, group, consumer, Number(minIdle), ids, {justId});
+                return justId
+                    ? claimed.map((c) => c.id)
+                    : claimed.map((c) => [c.id, Object.entries(c.fields).flat()]);
+            }
+            case "ZADD": {
+                const [key, ...rest] = args;
+                const scoreMembers: Array<{ score: number; member: string }> = [];
+                for (let i = 0; i < rest.length; i += 2) {
+                    scoreMembers.push({score: Number(rest[i]), member: rest[i + 1]});
+                }
+                return this.zaddSync(key, scoreMembers);
+            }
+            case "ZREM": {
+                const [key, ...members] = args;
+                return this.zremSync(key, members);
+            }
+            case "ZSCORE": {
+                const score = this.zset(args[0])?.members.get(args[1]);
+                return score === undefined ? null : String(score);
+            }
+            case "ZCARD":
+                return this.zset(args[0])?.members.size ?? 0;
+            case "ZRANGEBYSCORE":
+                return this.zrangebyscoreCommand(args);
+            default:
+                throw new Error(`ERR unknown command '${command}' (not modelled by InMemoryGlideKitClient)`);
+        }
+    }
+
+    async del(key: string): Promise<number> {
+        return this.delSync(key);
+    }
+
+    async get(key: string): Promise<string | null> {
+        return this.getSync(key);
+    }
+
+    async invokeScript(script: Script, options?: { keys?: string[]; args?: FieldValue[] }): Promise<GlideReturnType> {
+        const handler = this.scripts.get(script.getHash());
+        if (!handler) {
+            throw new Error(`NOSCRIPT no in-memory handler registered for script ${script.getHash()}`);
+        }
+        return handler({call: (command, ...args) => this.call(command, ...args), now: () => this.now()},
+            options?.keys ?? [], options?.args ?? []);
+    }
+
+    async set(key: string, value: string, ttlSec?: number, conditionalSet?: ConditionalSet): Promise<string | null> {
+        const args = [key, value];
+        if (ttlSec) args.push("EX", String(ttlSec));
+        if (conditionalSet === ConditionalSet.NX) args.push("NX");
+        if (conditionalSet === ConditionalSet.EX) args.push("XX");
+        return this.setCommand(args);
+    }
+
+    async xadd(stream: string, fields: StreamFields, opts?: { id?: string }): Promise<string | null> {
+        if (Object.keys(fields).length === 0) throw new Error("ERR wrong number of arguments for 'xadd' command");
+        return this.xaddSync(stream, fields, opts?.id ?? "*");
+    }
+
+    async xack(stream: string, group: string, ids: string[]): Promise<number> {
+        return this.xackSync(stream, group, ids);
+    }
+
+    async xreadgroup(args: {
+        group: string;
+        consumer: string;
+        blockMs: number;
+        count: number;
+        streams: { key: string; id: ">" }[]
+    }): Promise<XReadGroupResult | null> {
+        const keys = args.streams.map((s) => s.key);
+        const deadline = this.now() + args.blockMs;
+        for (; ;) {
+            const result = this.readGroupSync(args.group, args.consumer, keys, args.count);
+            if (result.length > 0) return result;
+            const remaining = args.blockMs === 0 ? undefined : deadline - this.now();
+            if (remaining !== undefined && remaining <= 0) return null;
+            await this.waitForAdd(keys, remaining);
+        }
+    }
+
+    async xinfoGroups(key: string, _options?: { decoder?: Decoder }): Promise<Record<string, number | string | null>[]> {
+        const stream = this.stream(key);
+        if (!stream) throw new Error("ERR no such key");
+        return [...stream.groups.values()].map((g) => ({
+            name: g.name,
+            consumers: g.consumers.size,
+            pending: g.pel.size,
+            "last-delivered-id": g.lastDeliveredId,
+            "entries-read": g.entriesRead,
+            lag: stream.entries.filter((e) => compareIds(e.id, g.lastDeliveredId) > 0).length,
+        }));
+    }
+
+    async xgroupCreate(key: string, group: string, id: string, opts?: {
+        mkStream?: boolean;
+        entriesRead?: string
+    }): Promise<string> {
+        let stream = this.stream(key);
+        if (!stream) {
+            if (!opts?.mkStream) {
+                throw new Error("ERR The XGROUP subcommand requires the key to exist");
+            }
+            stream = {kind: "stream", entries: [], lastId: "0-0", groups: new Map()};
+            this.data.set(key, stream);
+        }
+        if (stream.groups.has(group)) throw new Error("BUSYGROUP Consumer Group name already exists");
+        const lastDeliveredId = id === "$" ? stream.lastId : id;
+        stream.groups.set(group, {
+            name: group,
+            lastDeliveredId,
+            entriesRead: opts?.entriesRead !== undefined
+                ? Number(opts.entriesRead)
+                : stream.entries.filter((e) => compareIds(e.id, lastDeliveredId) <= 0).length,
+            pel: new Map(),
+            consumers: new Map(),
+        });
+        return "OK";
+    }
+
+    async xlen(key: string): Promise<number> {
+        return this.xlenSync(key);
+    }
+
+    async xrange(
+        stream: string,
+        start: string,
+        end: string,
+        opts?: { count?: number }
+    ): Promise<Array<{ id: string; fields: StreamFields }>> {
+        const entries = (this.stream(stream)?.entries ?? []).filter((e) => inRange(e.id, start, end));
+        return (opts?.count !== undefined ? entries.slice(0, opts.count) : entries)
+            .map((e) => ({id: e.id, fields: {...e.fields}}));
+    }
+
+    async xdel(stream: string, ids: string[]): Promise<number> {
+        return this.xdelSync(stream, ids);
+    }
+
+    async xpending(
+        stream: string,
+        group: string,
+        opts: { idle: number; count: number; start: string; end: string }
+    ): Promise<Array<{ id: string; consumer: string; idle: number; deliveries: number }>> {
+        return this.xpendingSync(stream, group, opts);
+    }
+
+    async xpendingSummary(stream: string, group: string): Promise<{
+        count: number;
+        minId: string | null;
+        maxId: string | null;
+        consumers: Array<{ name: string; pending: number }>
+    }> {
+        const g = this.group(stream, group);
+        const ids = [...g.pel.keys()].sort(compareIds);
+        const perConsumer = new Map<string, number>();
+        for (const p of g.pel.values()) perConsumer.set(p.consumer, (perConsumer.get(p.consumer) ?? 0) + 1);
+        return {
+            count: ids.length,
+            minId: ids[0] ?? null,
+            maxId: ids[ids.length - 1] ?? null,
+            consumers: [...perConsumer].sort(([a], [b]) => a.localeCompare(b)).map(([name, pending]) => ({name, pending})),
+        };
+    }
+
+    async xinfoConsumers(stream: string, group: string): Promise<Array<{ name: string; pending: number; idle: number }>> {
+        const g = this.group(stream, group);
+        const now = this.now();
+        return [...g.consumers].map(([name, {seenAt}]) => ({
+            name,
+            pending: [...g.pel.values()].filter((p) => p.consumer === name).length,
+            idle: now - seenAt,
+        }));
+    }
+
+    async xclaim(
+        stream: string,
+        group: string,
+        consumer: string,
+        minIdleMs: number,
+        ids: string[],
+        opts?: { retrycount?: number }
+    ): Promise<Array<{ id: string; fields: StreamFields }>> {
+        return this.xclaimSync(stream, group, consumer, minIdleMs, ids, opts);
+    }
+
+    async xautoclaim(
+        stream: string,
+        group: string,
+        consumer: string,
+        minIdleMs: number,
+        start: string,
+        opts?: { count?: number }
+    ): Promise<{ nextId: string; entries: Array<{ id: string; fields: StreamFields }>; deletedIds: string[] }> {
+        const s = this.stream(stream)!;
+        const g = this.group(stream, group);
+        const now = this.now();
+        const count = opts?.count ?? 100;
+        const scan = [...g.pel.values()]
+            .filter((p) => compareIds(p.id, start) >= 0)
+            .sort((a, b) => compareIds(a.id, b.id));
+        const entries: Array<{ id: string; fields: StreamFields }> = [];
+        const deletedIds: string[] = [];
+        let scanned = 0;
+        // like the server: deleted entries count towards `count`, and the cursor is the next unscanned PEL id
+        for (const pending of scan) {
+            if (entries.length + deletedIds.length >= count) break;
+            scanned++;
+            if (now - pending.deliveredAt < minIdleMs) continue;
+            const entry = s.entries.find((e) => e.id === pending.id);
+            if (!entry) {
+                g.pel.delete(pending.id);
+                deletedIds.push(pending.id);
+                continue;
+            }
+            pending.consumer = consumer;
+            pending.deliveredAt = now;
+            pending.deliveries++;
+            entries.push({id: pending.id, fields: {...entry.fields}});
+        }
+        this.touchConsumer(g, consumer);
+        return {nextId: scan[scanned]?.id ?? "0-0", entries, deletedIds};
+    }
+
+    async zadd(key: string, scoreMembers: Array<{ score: number; member: string }>): Promise<number> {
+        return this.zaddSync(key, scoreMembers);
+    }
+
+    async zpopmin(key: string): Promise<Array<{ score: number; member: string }>> {
+        const zset = this.zset(key);
+        if (!zset) return [];
+        const [first] = this.sortedMembers(zset);
+        if (!first) return [];
+        zset.members.delete(first.member);
+        if (zset.members.size === 0) this.data.delete(key);
+        return [first];
+    }
+
+    async zrangebyscore(
+        key: string,
+        min: number,
+        max: number,
+        opts?: { limit?: number }
+    ): Promise<Array<{ score: number; member: string }>> {
+        const zset = this.zset(key);
+        if (!zset) return [];
+        const items = this.sortedMembers(zset).filter(({score}) => score >= min && score <= max);
+        return opts?.limit ? items.slice(0, opts.limit) : items;
+    }
+
+    async zrem(key: string, members: string[]): Promise<number> {
+        return this.zremSync(key, members);
+    }
+
+    async ping(): Promise<string> {
+        return "PONG";
+    }
+
+    async zcard(key: string): Promise<number> {
+        return this.zset(key)?.members.size ?? 0;
+    }
+
+    private lookup(key: string): Stored | undefined {
+        const stored = this.data.get(key);
+        if (stored?.expiresAt !== undefined && stored.expiresAt <= this.now()) {
+            this.data.delete(key);
+            return undefined;
+        }
+        return stored;
+    }
+
+    private typed<K extends StoredValue["kind"]>(key: string, kind: K): Extract<Stored, { kind: K }> | undefined {
+        const stored = this.lookup(key);
+        if (!stored) return undefined;
+        if (stored.kind !== kind) {
+            throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
+        }
+        return stored as Extract<Stored, { kind: K }>;
+    }
+
+    private stream(key: string) {
+        return this.typed(key, "stream");
+    }
+
+    private zset(key: string) {
+        return this.typed(key, "zset");
+    }
+
+    private group(stream: string, group: string): ConsumerGroup {
+        const g = this.stream(stream)?.groups.get(group);
+        if (!g) {
+            throw new Error(`NOGROUP No such key '${stream}' or consumer group '${group}'`);
+        }
+        return g;
+    }
+
+    private touchConsumer(g: ConsumerGroup, consumer: string) {
+        g.consumers.set(consumer, {seenAt: this.now()});
+    }
+
+    private getSync(key: string): string | null {
+        return this.typed(key, "string")?.value ?? null;
+    }
+
+    private delSync(key: string): number {
+        return this.lookup(key) && this.data.delete(key) ? 1 : 0;
+    }
+
+    private setCommand(args: string[]): string | null {
+        const [key, value, ...flags] = args;
+        let expiresAt: number | undefined;
+        let mode: "NX" | "XX" | undefined;
+        for (let i = 0; i < flags.length; i++) {
+            const flag = flags[i].toUpperCase();
+            if (flag === "NX" || flag === "XX") mode = flag;
+            else if (flag === "EX") expiresAt = this.now() + Number(flags[++i]) * 1000;
+            else if (flag === "PX") expiresAt = this.now() + Number(flags[++i]);
+            else throw new Error(`ERR syntax error near '${flags[i]}'`);
+        }
+        const exists = this.lookup(key) !== undefined;
+        if ((mode === "NX" && exists) || (mode === "XX" && !exists)) return null;
+        this.data.set(key, {kind: "string", value, expiresAt});
+        return "OK";
+    }
+
+    private pairsToFields(pairs: FieldValue[]): StreamFields {
+        const fields: StreamFields = {};
+        for (let i = 0; i < pairs.length; i += 2) fields[fieldText(pairs[i])] = pairs[i + 1];
+        return fields;
+    }
+
+    private nextId(lastId: string): string {
+        const [lastMs, lastSeq] = parseId(lastId);
+        const ms = this.now();
+        return ms > lastMs ? `${ms}-0` : `${lastMs}-${lastSeq + 1}`;
+    }
+
+    private xaddSync(key: string, fields: StreamFields, id: string): string {
+        let stream = this.stream(key);
+        if (!stream) {
+            stream = {kind: "stream", entries: [], lastId: "0-0", groups: new Map()};
+            this.data.set(key, stream);
+        }
+        const newId = id === "*" ? this.nextId(stream.lastId) : id;
+        if (compareIds(newId, stream.lastId) <= 0) {
+            throw new Error("ERR The ID specified in XADD is equal or smaller than the target stream top item");
+        }
+        // base64 fields from JSON members come back as Buffers, as GlideKitClient does when reading
+        stream.entries.push({id: newId, fields: {...restoreFields(fields)}});
+        stream.lastId = newId;
+        for (const waiter of [...this.waiters]) {
+            if (waiter.keys.includes(key)) waiter.wake();
+        }
+        return newId;
+    }
+
+    private xackSync(stream: string, group: string, ids: string[]): number {
+        const g = this.stream(stream)?.groups.get(group);
+        if (!g) return 0;
+        return ids.reduce((n, id) => n + (g.pel.delete(id) ? 1 : 0), 0);
+    }
+
+    private xpendingSync(
+        stream: string,
+        group: string,
+        opts: { idle: number; count: number; start: string; end: string; consumer?: string }
+    ): Array<{ id: string; consumer: string; idle: number; deliveries: number }> {
+        const g = this.group(stream, group);
+        const now = this.now();
+        return [...g.pel.values()]
+            .filter((p) => inRange(p.id, opts.start, opts.end) && now - p.deliveredAt >= opts.idle)
+            .filter((p) => opts.consumer === undefined || p.consumer === opts.consumer)
+            .sort((a, b) => compareIds(a.id, b.id))
+            .slice(0, opts.count)
+            .map((p) => ({id: p.id, consumer: p.consumer, idle: now - p.deliveredAt, deliveries: p.deliveries}));
+    }
+
+    private xclaimSync(
+        stream: string,
+        group: string,
+        consumer: string,
+        minIdleMs: number,
+        ids: string[],
+        opts?: { retrycount?: number; justId?: boolean }
+    ): Array<{ id: string; fields: StreamFields }> {
+        const s = this.stream(stream)!;
+        const g = this.group(stream, group);
+        const now = this.now();
+        const out: Array<{ id: string; fields: StreamFields }> = [];
+        for (const id of ids) {
+            const pending = g.pel.get(id);
+            if (!pending || now - pending.deliveredAt < minIdleMs) continue;
+            const entry = s.entries.find((e) => e.id === id);
+            if (!entry) {
+                // Entry was trimmed/deleted from the stream: the server drops it from the PEL.
+                g.pel.delete(id);
+                continue;
+            }
+            pending.consumer = consumer;
+            pending.deliveredAt = now;
+            // JUSTID leaves the delivery counter alone
+            if (!opts?.justId) pending.deliveries = opts?.retrycount ?? pending.deliveries + 1;
+            this.touchConsumer(g, consumer);
+            out.push({id, fields: {...entry.fields}});
+        }
+        return out;
+    }
+
+    private xdelSync(key: string, ids: string[]): number {
+        const stream = this.stream(key);
+        if (!stream) return 0;
+        const before = stream.entries.length;
+        stream.entries = stream.entries.filter((e) => !ids.includes(e.id));
+        return before - stream.entries.length;
+    }
+
+    private xlenSync(key: string): number {
+        return this.stream(key)?.entries.length ?? 0;
+    }
+
+    private readGroupSync(group: string, consumer: string, keys: string[], count: number): XReadGroupResult {
+        const out: XReadGroupResult = [];
+        for (const key of keys) {
+            const stream = this.stream(key);
+            const g = this.group(key, group);
+            this.touchConsumer(g, consumer);
+            const messages = stream!.entries
+                .filter((e) => compareIds(e.id, g.lastDeliveredId) > 0)
+                .slice(0, count)
+                .map((e) => ({id: e.id, fields: {...e.fields}}));
+            if (messages.length === 0) continue;
+            for (const {id} of messages) {
+                g.pel.set(id, {id, consumer, deliveredAt: this.now(), deliveries: 1});
+            }
+            g.lastDeliveredId = messages[messages.length - 1].id;
+            g.entriesRead += messages.length;
+            out.push({stream: key, messages});
+        }
+        return out;
+    }
+
+    private waitForAdd(keys: string[], timeoutMs?: number): Promise<void> {
+        return new Promise((resolve) => {
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const waiter: Waiter = {
+                keys,
+                wake: () => {
+                    if (timer) clearTimeout(timer);
+                    this.waiters.delete(waiter);
+                    resolve();
+                },
+            };
+            this.waiters.add(waiter);
+            if (timeoutMs !== undefined) timer = setTimeout(waiter.wake, timeoutMs);
+        });
+    }
+
+    private sortedMembers(zset: { members: Map<string, number> }): Array<{ score: number; member: string }> {
+        return [...zset.members.entries()]
+            .map(([member, score]) => ({score, member}))
+            .sort((a, b) => a.score - b.score || (a.member < b.member ? -1 : a.member > b.member ? 1 : 0));
+    }
+
+    private zaddSync(key: string, scoreMembers: Array<{ score: number; member: string }>): number {
+        let zset = this.zset(key);
+        if (!zset) {
+            zset = {kind: "zset", members: new Map()};
+            this.data.set(key, zset);
+        }
+        let added = 0;
+        for (const {score, member} of scoreMembers) {
+            if (!zset.members.has(member)) added++;
+            zset.members.set(member, score);
+        }
+        return added;
+    }
+
+    private zremSync(key: string, members: string[]): number {
+        const zset = this.zset(key);
+        if (!zset) return 0;
+        const removed = members.reduce((n, member) => n + (zset.members.delete(member) ? 1 : 0), 0);
+        if (zset.members.size === 0) this.data.delete(key);
+        return removed;
+    }
+
+    private zrangebyscoreCommand(args: string[]): string[] {
+        const [key, minArg, maxArg, ...flags] = args;
+        const min = parseScoreBound(minArg);
+        const max = parseScoreBound(maxArg);
+        let withScores = false;
+        let offset = 0;
+        let count = -1;
+        for (let i = 0; i < flags.length; i++) {
+            const flag = flags[i].toUpperCase();
+            if (flag === "WITHSCORES") withScores = true;
+            else if (flag === "LIMIT") {
+                offset = Number(flags[++i]);
+                count = Number(flags[++i]);
+            } else throw new Error(`ERR syntax error near '${flags[i]}'`);
+        }
+        const zset = this.zset(key);
+        if (!zset) return [];
+        const items = this.sortedMembers(zset).filter(({score}) =>
+            (min.exclusive ? score > min.value : score >= min.value) &&
+            (max.exclusive ? score < max.value : score <= max.value));
+        const page = count < 0 ? items.slice(offset) : items.slice(offset, offset + count);
+        return page.flatMap(({score, member}) => withScores ? [member, String(score)] : [member]);
+    }
+}
@@ -0,0 +1,93 @@
+import {formatTraceparent, parseTraceparent, SpanAttributes, SpanLike, TraceContext, TracerLike} from "./tracer.js";
+
+type OtelSpanContext = {
+    traceId: string;
+    spanId: string;
+    traceFlags: number;
+    isRemote?: boolean;
+    traceState?: { serialize(): string };
+};
+
+type OtelSpan = {
+    setAttribute(key: string, value: string | number | boolean): unknown;
+    recordException(exception: Error | string): void;
+    setStatus(status: { code: number; message?: string }): unknown;
+    spanContext(): OtelSpanContext;
+    end(): void;
+};
+
+// The parts of `@opentelemetry/api` the adapter uses, so glide-kit does not depend on the package;
+// pass `import * as otel from "@opentelemetry/api"` as is.
+export interface OtelApiLike {
+    trace: {
+        getTracer(name: string, version?: string): {
+            startActiveSpan<F extends (span: OtelSpan) => unknown>(
+                name: string,
+                options: { kind?: number; attributes?: SpanAttributes },
+                context: unknown,
+                fn: F
+            ): ReturnType<F>;
+        };
+        setSpanContext(context: unknown, spanContext: OtelSpanContext): unknown;
+    };
+    context: { active(): unknown };
+    createTraceState?: (raw?: string) => { serialize(): string };
+}
+
+// Numeric values of the API's SpanKind and SpanStatusCode enums.
+const SPAN_KIND_PRODUCER = 3;
+const SPAN_KIND_CONSUMER = 4;
+const STATUS_ERROR = 2;
+
+/**
+ * Tracer backed by OpenTelemetry. Consumer spans continue the trace from the message's `traceparent`
+ * (parsed here, so no propagator needs to be registered) and are active while the handler runs.
+ */
+export function otelTracer(api: OtelApiLike, opts: { name?: string; version?: string } = {}): TracerLike {
+    const tracer = api.trace.getTracer(opts.name ?? "glide-kit", opts.version);
+
+    function parentContext(parent: TraceContext | undefined) {
+        const active = api.context.active();
+        const parsed = parent ? parseTraceparent(parent.traceparent) : undefined;
+        if (!parsed) return active;
+        return api.trace.setSpanContext(active, {
+            traceId: parsed.traceId,
+            spanId: parsed.spanId,
+            traceFlags: parsed.flags,
+            isRemote: true,
+            traceState: parent?.tracestate && api.createTraceState ? api.createTraceState(parent.tracestate) : undefined,
+        });
+    }
+
+    return {
+        startActiveSpan(name, {kind, parent, attributes}, fn) {
+            return tracer.startActiveSpan(name, {
+                kind: kind === "producer" ? SPAN_KIND_PRODUCER : SPAN_KIND_CONSUMER,
+                attributes,
+            }, parentContext(parent), async (span: OtelSpan) => {
+                const wrapped: SpanLike = {
+                    setAttribute: (key, value) => {
+                        span.setAttribute(key, value);
+                    },
+                    recordException: (err) => span.recordException(err instanceof Error ? err : String(err)),
+                    setError: (message) => {
+                        span.setStatus({code: STATUS_ERROR, message});
+                    },
+                    context: () => {
+                        const sc = span.spanContext();
+                        const tracestate = sc.traceState?.serialize();
+                        return {
+                            traceparent: formatTraceparent(sc.traceId, sc.spanId, sc.traceFlags),
+                            ...(tracestate ? {tracestate} : {}),
+                        };
+                    },
+                };
+                try {
+                    return await fn(wrapped);
+                } finally {
+                    span.end();
+                }
+            });
+        },
+    };
+}
@@ -0,0 +1,65 @@
+import {MessageHeaders} from "../core/types.js";
+
+// W3C trace context as carried in message headers.
+export type TraceContext = { traceparent: string; tracestate?: string };
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export interface SpanLike {
+    setAttribute(key: string, value: string | number | boolean): void;
+
+    recordException(err: unknown): void;
+
+    setError(message?: string): void;
+
+    // Context to propagate to messages sent from inside this span.
+    context(): TraceContext | undefined;
+}
+
+export interface TracerLike {
+    // Runs `fn` inside a span that is active for its duration and ended when it settles. Without `parent`
+    // the span is a child of whatever is active in the caller.
+    startActiveSpan<R>(
+        name: string,
+        opts: { kind: "producer" | "consumer"; parent?: TraceContext; attributes?: SpanAttributes },
+        fn: (span: SpanLike) => Promise<R>
+    ): Promise<R>;
+}
+
+export const noopTracer: TracerLike = {
+    startActiveSpan: (_name, _opts, fn) => fn({
+        setAttribute: () => {
+        },
+        recordException: () => {
+        },
+        setError: () => {
+        },
+        context: () => undefined,
+    }),
+};
+
+const traceparentPattern = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+export function parseTraceparent(traceparent: string): { traceId: string; spanId: string; flags: number } | undefined {
+    const match = traceparentPattern.exec(traceparent.trim().toLowerCase());
+    if (!match || match[1] === "ff" || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) return undefined;
+    return {traceId: match[2], spanId: match[3], flags: parseInt(match[4], 16)};
+}
+
+export function formatTraceparent(traceId: string, spanId: string, flags: number): string {
+    return `00-${traceId}-${spanId}-${flags.toString(16).padStart(2, "0")}`;
+}
+
+export function traceContextOf(headers: MessageHeaders): TraceContext | undefined {
+    if (!headers.traceparent || !parseTraceparent(headers.traceparent)) return undefined;
+    return {traceparent: headers.traceparent, tracestate: headers.tracestate};
+}
+
+// Headers carrying `ctx` instead of their current trace fields; unchanged when there is no context.
+export function withTraceContext(headers: MessageHeaders, ctx: TraceContext | undefined): MessageHeaders {
+    if (!ctx) return headers;
+    const next: MessageHeaders = {...headers, traceparent: ctx.traceparent, traceId: parseTraceparent(ctx.traceparent)?.traceId};
+    if (ctx.tracestate) next.tracestate = ctx.tracestate;
+    else delete next.tracestate;
+    return next;
+}
@@ -0,0 +1,118 @@
+import {jsonCodec, makePrometheusRegistry, startAdminServer} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+async function seedDlq(client: InMemoryGlideKitClient, value: string) {
+    return (await client.xadd("test:dlq", {
+        headers: JSON.stringify({type: "job", attempt: 3, enqueuedAt: 1}),
+        payload: JSON.stringify({value}),
+        error: JSON.stringify({reason: "boom"}),
+        handledBy: JSON.stringify({group: "svc", consumer: "c1"}),
+    }))!;
+}
+
+describe('Admin server', () => {
+
+    it('should serve probes, metrics, stats and DLQ operations', async () => {
+        const client = new InMemoryGlideKitClient();
+        let workerRunning = true;
+        const metrics = makePrometheusRegistry();
+        metrics.increment("produced_total", {stream: "test", type: "job"});
+        await client.xgroupCreate("test", "svc", "$", {mkStream: true});
+        const dead = await seedDlq(client, "v1");
+
+        const admin = startAdminServer({
+            client,
+            port: 0,
+            host: "127.0.0.1",
+            workers: {consumer: {isRunning: () => workerRunning}},
+            streams: [{stream: "test", group: "svc", codec: jsonCodec()}],
+            metrics,
+        });
+        const port = await admin.start();
+        const base = `http://127.0.0.1:${port}`;
+        try {
+            expect((await fetch(`${base}/healthz`)).status).toBe(200);
+            expect(await (await fetch(`${base}/readyz`)).json()).toEqual({status: "ok", workers: {consumer: true}, client: "ok"});
+            workerRunning = false;
+            expect((await fetch(`${base}/healthz`)).status).toBe(503);
+            expect((await fetch(`${base}/readyz`)).status).toBe(503);
+
+            const scraped = await fetch(`${base}/metrics`);
+            expect(scraped.headers.get("content-type")).toContain("text/plain");
+            expect(await scraped.text()).toContain('glidekit_produced_total{stream="test",type="job"} 1');
+
+            const stats = await (await fetch(`${base}/stats/test`)).json();
+            expect(stats).toMatchObject({stream: "test", dlq: {length: 1}, groups: [{name: "svc"}]});
+            expect(await (await fetch(`${base}/stats`)).json()).toHaveLength(1);
+            expect((await fetch(`${base}/stats/other`)).status).toBe(404);
+
+            const page = await (await fetch(`${base}/dlq/test?reason=boom`)).json();
+            expect(page.entries.map((e: { id: string }) => e.id)).toEqual([dead]);
+            expect(await (await fetch(`${base}/dlq/test/${dead}`)).json()).toMatchObject({payload: {value: "v1"}});
+
+            const requeue = (body: unknown) => fetch(`${base}/dlq/test/requeue`, {method: "POST", body: JSON.stringify(body)});
+            expect((await requeue({ids: "nope"})).status).toBe(400);
+            expect(await (await requeue({ids: [dead], payload: {value: "fixed"}})).json()).toEqual([{id: dead, requeuedAs: expect.any(String)}]);
+            expect(await client.xlen("test:dlq")).toBe(0);
+            const [requeued] = await client.xrange("test", "-", "+");
+            expect(JSON.parse(String(requeued.fields.payload))).toEqual({value: "fixed"});
+            expect((await fetch(`${base}/dlq/test/${dead}`)).status).toBe(404);
+        } finally {
+            await admin.stop();
+        }
+        expect(admin.isRunning()).toBe(false);
+    });
+
+    it('should requeue raw fields without a codec and refuse replacement payloads', async () => {
+        const client = new InMemoryGlideKitClient();
+        const dead = await seedDlq(client, "v1");
+        const admin = startAdminServer({client, port: 0, host: "127.0.0.1", streams: ["test"]});
+        const port = await admin.start();
+        const requeue = (body: unknown) => fetch(`http://127.0.0.1:${port}/dlq/test/requeue`, {method: "POST", body: JSON.stringify(body)});
+        try {
+            expect((await requeue({ids: [dead], payload: {value: "fixed"}})).status).toBe(400);
+            expect((await requeue(null)).status).toBe(400);
+            expect((await requeue({ids: [dead]})).status).toBe(200);
+            const [requeued] = await client.xrange("test", "-", "+");
+            expect(requeued.fields.payload).toBe(JSON.stringify({value: "v1"}));
+        } finally {
+            await admin.stop();
+        }
+    });
+
+    it('should reject a wrong method on requeue and invalid query values', async () => {
+        const client = new InMemoryGlideKitClient();
+        await seedDlq(client, "v1");
+        const admin = startAdminServer({client, port: 0, host: "127.0.0.1", streams: ["test"]});
+        const port = await admin.start();
+        const base = `http://127.0.0.1:${port}`;
+        try {
+            expect((await fetch(`${base}/dlq/test/requeue`)).status).toBe(405);
+            expect((await fetch(`${base}/dlq/test/requeue`, {method: "DELETE"})).status).toBe(405);
+            for (const query of ["from=yesterday", "to=2024-13-45", "count=-1", "count=abc"]) {
+                const res = await fetch(`${base}/dlq/test?${query}`);
+                expect(res.status).toBe(400);
+                expect(await res.json()).toEqual({error: expect.stringContaining("invalid")});
+            }
+            expect((await (await fetch(`${base}/dlq/test?from=2000-01-01T00:00:00Z&count=5`)).json()).entries).toHaveLength(1);
+        } finally {
+            await admin.stop();
+        }
+    });
+
+    it('should refuse requeues when read-only', async () => {
+        const client = new InMemoryGlideKitClient();
+        const dead = await seedDlq(client, "v1");
+        const admin = startAdminServer({client, port: 0, host: "127.0.0.1", streams: ["test"], readOnly: true});
+        const port = await admin.start();
+        try {
+            const res = await fetch(`http://127.0.0.1:${port}/dlq/test/requeue`, {method: "POST", body: JSON.stringify({ids: [dead]})});
+            expect(res.status).toBe(403);
+            expect(await client.xlen("test:dlq")).toBe(1);
+            expect((await fetch(`http://127.0.0.1:${port}/metrics`)).status).toBe(404);
+        } finally {
+            await admin.stop();
+        }
+    });
+});
@@ -0,0 +1,144 @@
+import {
+    backoffPolicy,
+    jsonCodec,
+    makeConsumer,
+    makeDlqManager,
+    makeProducer,
+    startRetryDaemon,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+type Upload = { name: string; data: string };
+
+const large: Upload = {name: "big.csv", data: "x".repeat(4096)};
+const small: Upload = {name: "tiny.csv", data: "x"};
+
+describe('claim-check', () => {
+
+    it('should store large payloads under their own key, resolve them for the handler and delete them on ack', async () => {
+        const client = new InMemoryGlideKitClient();
+        const producer = makeProducer<Upload>({client, stream: "uploads", codec: jsonCodec(), claimCheck: {thresholdBytes: 1024}});
+        const seen: Upload[] = [];
+
+        const worker = makeConsumer<Upload>({
+            client,
+            stream: "uploads",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec(),
+            retryPolicy: {next: () => ({action: "dlq"})},
+            handler: async (payload) => {
+                seen.push(payload);
+            },
+            batch: {count: 16, blockMs: 50},
+        });
+        await worker.start();
+        await producer.send(large);
+        await producer.send(small);
+
+        const [checked, inline] = await client.xrange("uploads", "-", "+");
+        expect(checked.fields.payload).toBeUndefined();
+        expect(String(checked.fields.payloadRef)).toMatch(/^uploads:blob:/);
+        expect(inline.fields.payloadRef).toBeUndefined();
+
+        await expect.poll(() => seen.length, {timeout: 5_000}).toBe(2);
+        await worker.stop();
+        expect(seen).toEqual([large, small]);
+        expect(await client.get(String(checked.fields.payloadRef))).toBeNull();
+    });
+
+    it('should keep the payload alive across retries, inline it in the DLQ and dead-letter expired references', async () => {
+        const client = new InMemoryGlideKitClient();
+        const producer = makeProducer<Upload>({client, stream: "uploads", codec: jsonCodec(), claimCheck: {thresholdBytes: 1024}});
+        const attempts: Upload[] = [];
+
+        const worker = makeConsumer<Upload>({
+            client,
+            stream: "uploads",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec(),
+            retryPolicy: {next: (headers) => headers.attempt < 2 ? {action: "retry", delayMs: 0} : {action: "dlq", reason: "gave up"}},
+            handler: async (payload) => {
+                attempts.push(payload);
+                throw new Error("nope");
+            },
+            batch: {count: 16, blockMs: 50},
+        });
+        const daemon = startRetryDaemon({client, retryZset: "uploads:retry", targetStream: "uploads", tickMs: 25});
+        await worker.start();
+        daemon.start();
+        await producer.send(large);
+        const [{fields: {payloadRef}}] = await client.xrange("uploads", "-", "+");
+        await expect.poll(() => client.xlen("uploads:dlq"), {timeout: 5_000}).toBe(1);
+
+        expect(attempts).toEqual([large, large, large]);
+        const retried = (await client.xrange("uploads", "-", "+")).slice(1);
+        expect(retried.map((e) => e.fields.payloadRef)).toEqual([payloadRef, payloadRef]);
+        expect(await client.get(String(payloadRef))).toBeNull();
+        const {entries: [dead]} = await makeDlqManager<Upload>({client, stream: "uploads", codec: jsonCodec()}).list();
+        expect(dead.payload).toEqual(large);
+
+        // the payload key expired before the message was read
+        const {payload: _inline, ...headersOnly} = jsonCodec<Upload>().encode({headers: {type: "msg", attempt: 0, enqueuedAt: Date.now()}, payload: large});
+        await client.xadd("uploads", {...headersOnly, payloadRef: "uploads:blob:expired"});
+        await expect.poll(() => client.xlen("uploads:dlq"), {timeout: 5_000}).toBe(2);
+        await worker.stop();
+        await daemon.stop();
+        const {entries: [, undecodable]} = await makeDlqManager<Upload>({client, stream: "uploads", codec: jsonCodec()}).list();
+        expect(undecodable.error?.reason).toBe("undecodable");
+        expect(attempts).toHaveLength(3);
+    });
+    it('should inline the payload of poison entries and of messages parked behind an ordering hold', async () => {
+        const client = new InMemoryGlideKitClient();
+        const producer = makeProducer<Upload>({client, stream: "uploads", codec: jsonCodec(), claimCheck: {thresholdBytes: 1024}});
+        await client.xgroupCreate("uploads", "svc", "0", {mkStream: true});
+        await producer.send(large);
+        await client.xreadgroup({group: "svc", consumer: "crashed", blockMs: 0, count: 1, streams: [{key: "uploads", id: ">"}]});
+        client.advanceTime(60_000);
+        const [{fields: {payloadRef: poisonRef}}] = await client.xrange("uploads", "-", "+");
+
+        const seen: string[] = [];
+        let failedOnce = false;
+        const worker = makeConsumer<Upload>({
+            client,
+            stream: "uploads",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec(),
+            retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 300}}),
+            handler: async (upload) => {
+                seen.push(`${upload.name}:${upload.data.length}`);
+                if (upload.name === "first" && !failedOnce) {
+                    failedOnce = true;
+                    throw new Error("first attempt fails");
+                }
+            },
+            batch: {count: 16, blockMs: 50},
+            ordering: {},
+            pelClaim: {enabled: true, minIdleMs: 30_000, intervalMs: 25, maxDeliveries: 1},
+        });
+        const daemon = startRetryDaemon({client, retryZset: "uploads:retry", targetStream: "uploads", tickMs: 25});
+        await worker.start();
+        daemon.start();
+
+        await expect.poll(() => client.xlen("uploads:dlq"), {timeout: 5_000}).toBe(1);
+        expect(await client.get(String(poisonRef))).toBeNull();
+        const {entries: [poison]} = await makeDlqManager<Upload>({client, stream: "uploads", codec: jsonCodec()}).list();
+        expect(poison.payload).toEqual(large);
+        expect(poison.error?.reason).toBe("poison");
+
+        // the first message holds key A while its retry waits, so the large one is parked behind it
+        await producer.send({...small, name: "first"}, {key: "A"});
+        await expect.poll(() => seen, {timeout: 5_000}).toContain("first:1");
+        await producer.send(large, {key: "A"});
+        const parkedRef = (await client.xrange("uploads", "-", "+")).pop()!.fields.payloadRef;
+        await expect.poll(() => client.call("LLEN", "uploads:order:svc:A:parked"), {timeout: 5_000}).toBe(1);
+        expect(await client.get(String(parkedRef))).toBeNull();
+        await expect.poll(() => seen, {timeout: 5_000}).toContain("big.csv:4096");
+        await worker.stop();
+        await daemon.stop();
+        expect(seen.slice(-3)).toEqual(["first:1", "first:1", "big.csv:4096"]);
+    });
+});
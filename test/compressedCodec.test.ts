@@ -0,0 +1,78 @@
+import {
+    CodecError,
+    compressedCodec,
+    jsonCodec,
+    makeConsumer,
+    startRetryDaemon,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+type Doc = { title: string; body: string };
+
+const big: Doc = {title: "report", body: "lorem ipsum dolor sit amet ".repeat(200)};
+const small: Doc = {title: "note", body: "hi"};
+const headers = {type: "doc", attempt: 0, enqueuedAt: 0};
+
+describe('compressedCodec', () => {
+
+    it('should compress payloads above the threshold with the recorded algorithm and leave small ones alone', () => {
+        for (const algorithm of ["gzip", "brotli", "deflate"] as const) {
+            const codec = compressedCodec<Doc>(jsonCodec(), {algorithm, thresholdBytes: 256});
+            const encoded = codec.encode({headers, payload: big});
+            expect(encoded.compression).toBe(algorithm);
+            expect(Buffer.isBuffer(encoded.payload)).toBe(true);
+            expect(encoded.payload.length).toBeLessThan(JSON.stringify(big).length / 4);
+            expect(codec.decode(encoded).payload).toEqual(big);
+
+            const plain = codec.encode({headers, payload: small});
+            expect(plain.compression).toBeUndefined();
+            expect(plain.payload).toBe(JSON.stringify(small));
+            expect(codec.decode(plain).payload).toEqual(small);
+        }
+
+        // decoding follows the field, not the codec's own algorithm
+        const brotli = compressedCodec<Doc>(jsonCodec(), {algorithm: "brotli", thresholdBytes: 0}).encode({headers, payload: big});
+        expect(compressedCodec<Doc>(jsonCodec()).decode(brotli).payload).toEqual(big);
+
+        const gzip = compressedCodec<Doc>(jsonCodec(), {thresholdBytes: 0});
+        expect(() => gzip.decode({...brotli, compression: "gzip"})).toThrow(CodecError);
+        expect(() => gzip.decode({...brotli, compression: "lz4"})).toThrow(CodecError);
+    });
+
+    it('should keep compressed payloads intact through the stream and a retry via the retry ZSET', async () => {
+        const client = new InMemoryGlideKitClient();
+        const codec = compressedCodec<Doc>(jsonCodec(), {thresholdBytes: 256});
+        const seen: Doc[] = [];
+
+        const worker = makeConsumer<Doc>({
+            client,
+            stream: "docs",
+            group: "svc",
+            consumer: "c1",
+            codec,
+            retryPolicy: {next: () => ({action: "retry", delayMs: 0})},
+            handler: async (payload) => {
+                seen.push(payload);
+                if (seen.length === 1) throw new Error("first try fails");
+            },
+            batch: {count: 16, blockMs: 50},
+        });
+        const daemon = startRetryDaemon({client, retryZset: "docs:retry", targetStream: "docs", tickMs: 25});
+        await worker.start();
+        daemon.start();
+        await client.xadd("docs", codec.encode({headers, payload: big}));
+        await expect.poll(() => seen.length, {timeout: 5_000}).toBe(2);
+        await worker.stop();
+        await daemon.stop();
+
+        expect(seen).toEqual([big, big]);
+        const entries = await client.xrange("docs", "-", "+");
+        expect(entries).toHaveLength(2);
+        for (const {fields} of entries) {
+            expect(fields.__binary).toBeUndefined();
+            expect(Buffer.isBuffer(fields.payload)).toBe(true);
+            expect(fields.compression).toBe("gzip");
+        }
+    });
+});
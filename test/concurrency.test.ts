@@ -0,0 +1,80 @@
+import {backoffPolicy, jsonCodec, makeConsumer, makeProducer} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+const fastBatch = {count: 16, blockMs: 50};
+
+describe('Concurrency', () => {
+
+    it('should run up to `concurrency` handlers at once', async () => {
+        const client = new InMemoryGlideKitClient();
+        const started: string[] = [];
+        const releases: Array<() => void> = [];
+
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "test:svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 0}}),
+            handler: async (job) => {
+                started.push(job.value);
+                await new Promise<void>((r) => releases.push(r));
+            },
+            batch: fastBatch,
+            concurrency: 2,
+        });
+
+        await worker.start();
+        await producer.send({value: "a"});
+        await producer.send({value: "b"});
+        await producer.send({value: "c"});
+
+        await expect.poll(() => started).toEqual(["a", "b"]);
+        await new Promise((r) => setTimeout(r, 100));
+        expect(started).toEqual(["a", "b"]);
+        // The third message must not have been read while both slots were busy.
+        expect(await client.xpending("test", "test:svc", {idle: 0, count: 10, start: "-", end: "+"})).toHaveLength(2);
+
+        releases.shift()!();
+        await expect.poll(() => started).toEqual(["a", "b", "c"]);
+
+        const stopped = worker.stop({drain: true, timeoutMs: 5_000});
+        releases.forEach((release) => release());
+        await stopped;
+        expect(await client.xpending("test", "test:svc", {idle: 0, count: 10, start: "-", end: "+"})).toEqual([]);
+    });
+
+    it('should leave what a read blocked during stop returns pending instead of handling it', async () => {
+        const client = new InMemoryGlideKitClient();
+        const handled: string[] = [];
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "test:svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 0}}),
+            handler: async (job) => {
+                handled.push(job.value);
+            },
+            batch: {count: 16, blockMs: 200},
+        });
+        await worker.start();
+        await new Promise((r) => setTimeout(r, 50));   // the read is blocked now
+
+        const stopped = worker.stop({drain: true});
+        await makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()}).send({value: "late"});
+        await stopped;
+        await new Promise((r) => setTimeout(r, 50));
+
+        expect(handled).toEqual([]);
+        expect(await client.xpending("test", "test:svc", {idle: 0, count: 10, start: "-", end: "+"})).toMatchObject([{consumer: "c1"}]);
+    });
+});
@@ -0,0 +1,129 @@
+import {startCronScheduler} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {nextCronTick, parseCron, prevCronTick} from "../src/scheduler/cron";
+import {expect} from "vitest";
+
+describe('cron', () => {
+
+    it('should find the next tick on the wall clock of a timezone', () => {
+        const spec = parseCron("30 9 * * MON-FRI");
+        // Saturday 2024-03-09 12:00 UTC → Monday 2024-03-11 09:30 in New York (EDT, UTC-4 after the DST switch)
+        const next = nextCronTick(spec, Date.UTC(2024, 2, 9, 12), "America/New_York");
+        expect(new Date(next).toISOString()).toBe("2024-03-11T13:30:00.000Z");
+    });
+
+    it('should fire a wall-clock time repeated by a DST fall-back once', () => {
+        const spec = parseCron("30 1 * * *");
+        // 2026-11-01 in New York: 01:00-01:59 happens first in EDT (UTC-4), then again in EST (UTC-5)
+        const first = nextCronTick(spec, Date.UTC(2026, 10, 1, 4), "America/New_York");
+        expect(new Date(first).toISOString()).toBe("2026-11-01T05:30:00.000Z");
+        expect(new Date(nextCronTick(spec, first, "America/New_York")).toISOString()).toBe("2026-11-02T06:30:00.000Z");
+        expect(prevCronTick(spec, Date.UTC(2026, 10, 1, 12), "America/New_York")).toBe(first);
+        // times outside the repeated hour are unaffected
+        expect(new Date(nextCronTick(parseCron("30 2 * * *"), first, "America/New_York")).toISOString())
+            .toBe("2026-11-01T07:30:00.000Z");
+    });
+
+    it('should not fire a wall-clock time skipped by a DST spring-forward', () => {
+        // 2026-03-08 in New York: 02:00 EST jumps to 03:00 EDT
+        const spec = parseCron("30 2 * * *");
+        expect(new Date(nextCronTick(spec, Date.UTC(2026, 2, 8, 5), "America/New_York")).toISOString())
+            .toBe("2026-03-09T06:30:00.000Z");
+        expect(new Date(prevCronTick(spec, Date.UTC(2026, 2, 9, 0), "America/New_York")).toISOString())
+            .toBe("2026-03-07T07:30:00.000Z");
+        expect(new Date(nextCronTick(parseCron("0 * * * *"), Date.UTC(2026, 2, 8, 6, 30), "America/New_York")).toISOString())
+            .toBe("2026-03-08T07:00:00.000Z");
+    });
+
+    it('should support steps, seconds and OR-ed day fields', () => {
+        expect(nextCronTick(parseCron("*/15 * * * * *"), Date.UTC(2024, 0, 1, 0, 0, 16)))
+            .toBe(Date.UTC(2024, 0, 1, 0, 0, 30));
+        // the 1st of the month or any Sunday, whichever comes first
+        expect(new Date(nextCronTick(parseCron("0 0 1 * 0"), Date.UTC(2024, 0, 2))).toISOString())
+            .toBe("2024-01-07T00:00:00.000Z");
+        expect(() => parseCron("61 * * * *")).toThrow();
+    });
+
+    it('should enqueue each tick exactly once across instances', async () => {
+        const client = new InMemoryGlideKitClient();
+        const jobs = [{name: "heartbeat", everyMs: 100, stream: "jobs", payload: (tick: Date) => ({at: tick.getTime()})}];
+        const schedulers = [1, 2, 3].map(() => startCronScheduler({client, jobs, pollMs: 20}));
+        schedulers.forEach((s) => s.start());
+
+        await new Promise((r) => setTimeout(r, 550));
+        await Promise.all(schedulers.map((s) => s.stop()));
+
+        const read = await client.xgroupCreate("jobs", "g", "0")
+            .then(() => client.xreadgroup({group: "g", consumer: "c", blockMs: 1, count: 100, streams: [{key: "jobs", id: ">"}]}));
+        const ticks = read![0].messages.map((m) => JSON.parse(String(m.fields.payload)).at as number);
+        expect(ticks.length).toBeGreaterThanOrEqual(4);
+        expect(new Set(ticks).size).toBe(ticks.length);
+        expect(JSON.parse(String(read![0].messages[0].fields.headers))).toMatchObject({type: "heartbeat", attempt: 0});
+        expect((await schedulers[0].lastRun("heartbeat"))?.getTime()).toBe(Math.max(...ticks));
+    });
+
+    it('should apply the catch-up policy to ticks missed while down', async () => {
+        // only Date is faked, so the scheduler's own setTimeout still runs
+        vi.useFakeTimers({toFake: ["Date"]});
+        vi.setSystemTime(new Date("2024-06-01T12:00:30Z"));
+        onTestFinished(() => {
+            vi.useRealTimers();
+        });
+
+        for (const [catchUp, expected] of [["none", 0], ["latest", 1], ["all", 5]] as const) {
+            const client = new InMemoryGlideKitClient();
+            const now = Date.now();
+            await client.set("cron:report:lastRun", String(Math.floor((now - 5 * 60_000) / 60_000) * 60_000));
+
+            const scheduler = startCronScheduler({
+                client,
+                jobs: [{name: "report", cron: "* * * * *", stream: "reports", payload: {}}],
+                catchUp,
+                graceMs: 0,
+                pollMs: 20,
+            });
+            scheduler.start();
+            await expect.poll(() => scheduler.lastRun("report").then((d) => d?.getTime()))
+                .toBe(Math.floor(now / 60_000) * 60_000);
+            await scheduler.stop();
+
+            expect(await client.xlen("reports")).toBe(expected);
+        }
+    });
+
+    it('should only visit the ticks it fires after a long outage', async () => {
+        vi.useFakeTimers({toFake: ["Date"]});
+        vi.setSystemTime(new Date("2024-06-01T12:00:30.500Z"));
+        onTestFinished(() => {
+            vi.useRealTimers();
+        });
+
+        for (const [catchUp, expected] of [["none", 0], ["latest", 1], ["all", 50]] as const) {
+            const client = new InMemoryGlideKitClient();
+            const now = Date.now();
+            // an every-second job that missed a month
+            await client.set("cron:beat:lastRun", String(Math.floor(now / 1000) * 1000 - 30 * 86_400_000));
+
+            const scheduler = startCronScheduler({
+                client,
+                jobs: [{name: "beat", cron: "* * * * * *", stream: "beats", payload: (tick: Date) => ({at: tick.getTime()})}],
+                catchUp,
+                maxCatchUp: 50,
+                graceMs: 0,
+                pollMs: 20,
+            });
+            const started = performance.now();
+            scheduler.start();
+            await expect.poll(() => scheduler.lastRun("beat").then((d) => d?.getTime()))
+                .toBe(Math.floor(now / 1000) * 1000);
+            await scheduler.stop();
+            expect(performance.now() - started).toBeLessThan(1_000);
+
+            const entries = await client.xrange("beats", "-", "+");
+            expect(entries).toHaveLength(expected);
+            // the newest missed ticks, in order
+            const ticks = entries.map((e) => JSON.parse(String(e.fields.payload)).at as number);
+            expect(ticks).toEqual(ticks.map((_, i) => Math.floor(now / 1000) * 1000 - (ticks.length - 1 - i) * 1000));
+        }
+    });
+});
@@ -0,0 +1,115 @@
+import {jsonCodec, makeDlqManager} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {runDlqCommand} from "../src/cli/dlqCommand";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+async function seed(client: InMemoryGlideKitClient, type: string, reason: string, value: string) {
+    return (await client.xadd("test:dlq", {
+        headers: JSON.stringify({type, attempt: 4, enqueuedAt: 1}),
+        payload: JSON.stringify({value}),
+        error: JSON.stringify({reason}),
+        handledBy: JSON.stringify({group: "test:svc", consumer: "c1"}),
+    }))!;
+}
+
+describe('DLQ manager', () => {
+
+    it('should list with paging and filters', async () => {
+        const client = new InMemoryGlideKitClient();
+        const dlq = makeDlqManager<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const ids = [];
+        for (let i = 0; i < 5; i++) {
+            ids.push(await seed(client, i % 2 ? "b" : "a", i < 3 ? "maxAttempts(5)" : "non-retryable", `v${i}`));
+        }
+
+        const first = await dlq.list({count: 2});
+        expect(first.entries.map((e) => e.payload?.value)).toEqual(["v0", "v1"]);
+        const second = await dlq.list({count: 2, after: first.next});
+        expect(second.entries.map((e) => e.payload?.value)).toEqual(["v2", "v3"]);
+
+        expect((await dlq.list({type: "a"})).entries.map((e) => e.id)).toEqual([ids[0], ids[2], ids[4]]);
+        expect((await dlq.list({reason: /^non/})).entries).toHaveLength(2);
+        expect((await dlq.list({from: Number(ids[4].split("-")[0]) + 1})).entries).toEqual([]);
+        expect((await dlq.peek(ids[1]))?.handledBy).toEqual({group: "test:svc", consumer: "c1"});
+    });
+
+    it('should read malformed metadata as absent', async () => {
+        const client = new InMemoryGlideKitClient();
+        const dlq = makeDlqManager<TestJob>({client, stream: "test"});
+        const id = (await client.xadd("test:dlq", {
+            headers: JSON.stringify({type: 7}),
+            payload: JSON.stringify({value: "v"}),
+            error: JSON.stringify(["not", "an", "object"]),
+            handledBy: "{broken",
+        }))!;
+
+        const entry = await dlq.peek(id);
+        expect(entry).toMatchObject({headers: undefined, payload: {value: "v"}, error: undefined, handledBy: undefined});
+        expect((await dlq.list({reason: "x"})).entries).toEqual([]);
+        expect(await dlq.requeue(id)).toEqual([{id, requeuedAs: null}]);
+    });
+
+    it('should requeue entries once with attempt reset and optional payload', async () => {
+        const client = new InMemoryGlideKitClient();
+        const dlq = makeDlqManager<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const a = await seed(client, "a", "x", "old");
+        const b = await seed(client, "a", "x", "keep");
+
+        const results = await dlq.requeue([a, a, b], {payload: (p, entry) => entry.id === a ? {value: "new"} : p!});
+        expect(results.map((r) => r.requeuedAs !== null)).toEqual([true, false, true]);
+
+        const requeued = await client.xrange("test", "-", "+");
+        expect(requeued.map((m) => JSON.parse(String(m.fields.payload)).value)).toEqual(["new", "keep"]);
+        expect(JSON.parse(String(requeued[0].fields.headers))).toMatchObject({type: "a", attempt: 0});
+        expect(await dlq.length()).toBe(0);
+    });
+
+    it('should requeue entries the codec cannot decode with their raw fields', async () => {
+        const client = new InMemoryGlideKitClient();
+        const dlq = makeDlqManager<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const sealed = Buffer.from([0xde, 0xad, 0xbe, 0xef]);
+        const a = (await client.xadd("test:dlq", {
+            headers: JSON.stringify({type: "a", attempt: 4, enqueuedAt: 1}),
+            payload: sealed,
+            kid: "k1",
+            error: JSON.stringify({reason: "undecodable"}),
+        }))!;
+        const b = (await client.xadd("test:dlq", {headers: JSON.stringify({type: "a", attempt: 4, enqueuedAt: 1})}))!;
+        const c = await seed(client, "a", "x", "cli");
+
+        expect((await dlq.peek(a))?.payload).toBeUndefined();
+        expect(await dlq.requeue([a, b])).toEqual([{id: a, requeuedAs: expect.any(String)}, {id: b, requeuedAs: null}]);
+        await expect(makeDlqManager<TestJob>({client, stream: "test"}).requeue(b, {payload: {value: "x"}})).rejects.toThrow(/codec/);
+
+        const out: string[] = [];
+        const ctx = {client, out: (t: string) => out.push(t), err: (t: string) => out.push(t)};
+        expect(await runDlqCommand(["requeue", "--stream", "test", c], ctx)).toBe(0);
+
+        const [raw, cli] = await client.xrange("test", "-", "+");
+        expect(raw.fields).toEqual({headers: expect.any(String), payload: sealed, kid: "k1"});
+        expect(JSON.parse(String(raw.fields.headers))).toMatchObject({type: "a", attempt: 0});
+        expect(cli.fields.payload).toBe(JSON.stringify({value: "cli"}));
+        expect(await dlq.length()).toBe(1);
+    });
+
+    it('should delete, purge and export via the CLI command', async () => {
+        const client = new InMemoryGlideKitClient();
+        const a = await seed(client, "a", "x", "1");
+        await seed(client, "b", "x", "2");
+        await seed(client, "b", "y", "3");
+        const out: string[] = [];
+        const ctx = {client, out: (t: string) => out.push(t), err: (t: string) => out.push(t)};
+
+        expect(await runDlqCommand(["delete", "--stream", "test", a], ctx)).toBe(0);
+        expect(await runDlqCommand(["purge", "--stream", "test", "--reason", "y"], ctx)).toBe(2);
+        expect(await runDlqCommand(["purge", "--stream", "test", "--reason", "y", "--yes"], ctx)).toBe(0);
+
+        out.length = 0;
+        expect(await runDlqCommand(["export", "--stream", "test"], ctx)).toBe(0);
+        expect(out.map((line) => JSON.parse(line).payload)).toEqual([{value: "2"}]);
+    });
+});
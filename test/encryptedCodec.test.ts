@@ -0,0 +1,86 @@
+import {randomBytes} from "node:crypto";
+import {
+    CodecError,
+    compressedCodec,
+    encryptedCodec,
+    jsonCodec,
+    makeConsumer,
+    makeDlqManager,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+type Patient = { name: string; ssn: string };
+
+const k1 = randomBytes(32);
+const k2 = randomBytes(32);
+const patient: Patient = {name: "Ada Lovelace", ssn: "078-05-1120"};
+const headers = {type: "patient.admitted", attempt: 0, enqueuedAt: 0};
+
+describe('encryptedCodec', () => {
+
+    it('should encrypt the payload, keep headers readable and decrypt with the recorded key after rotation', () => {
+        const before = encryptedCodec<Patient>(jsonCodec(), {keys: {k1}, activeKid: "k1"});
+        const encoded = before.encode({headers, payload: patient});
+        expect(encoded.kid).toBe("k1");
+        expect(JSON.parse(String(encoded.headers))).toMatchObject({type: "patient.admitted"});
+        expect(Buffer.isBuffer(encoded.payload)).toBe(true);
+        expect(encoded.payload.toString()).not.toContain(patient.ssn);
+        expect(before.decode(encoded).payload).toEqual(patient);
+
+        const after = encryptedCodec<Patient>(jsonCodec(), {keys: {k1, k2}, activeKid: "k2"});
+        expect(after.encode({headers, payload: patient}).kid).toBe("k2");
+        expect(after.decode(encoded).payload).toEqual(patient);
+
+        const tampered = Buffer.from(encoded.payload as Buffer);
+        tampered[tampered.length - 1] ^= 1;
+        expect(() => after.decode({...encoded, payload: tampered})).toThrow(CodecError);
+        expect(() => after.decode({...encoded, kid: "k2"})).toThrow(CodecError);
+        expect(() => encryptedCodec<Patient>(jsonCodec(), {keys: {k2}, activeKid: "k2"}).decode(encoded)).toThrow(CodecError);
+
+        const plain = jsonCodec<Patient>().encode({headers, payload: patient});
+        expect(() => after.decode(plain)).toThrow(CodecError);
+        const adopting = encryptedCodec<Patient>(jsonCodec(), {keys: {k2}, activeKid: "k2", allowPlaintext: true});
+        expect(adopting.decode(plain).payload).toEqual(patient);
+
+        const layered = encryptedCodec<Patient>(compressedCodec(jsonCodec(), {thresholdBytes: 0}), {keys: {k1}, activeKid: "k1"});
+        expect(layered.decode(layered.encode({headers, payload: patient})).payload).toEqual(patient);
+
+        expect(() => encryptedCodec(jsonCodec(), {keys: {short: randomBytes(16)}, activeKid: "short"})).toThrow();
+        expect(() => encryptedCodec(jsonCodec(), {keys: {k1}, activeKid: "k2"})).toThrow();
+    });
+
+    it('should store dead-lettered payloads encrypted and let the DLQ manager read them after rotation', async () => {
+        const client = new InMemoryGlideKitClient();
+        const codec = encryptedCodec<Patient>(jsonCodec(), {keys: {k1}, activeKid: "k1"});
+        let attempts = 0;
+
+        const worker = makeConsumer<Patient>({
+            client,
+            stream: "patients",
+            group: "svc",
+            consumer: "c1",
+            codec,
+            retryPolicy: {next: () => ({action: "dlq", reason: "rejected"})},
+            handler: async () => {
+                attempts++;
+                throw new Error("nope");
+            },
+            batch: {count: 16, blockMs: 50},
+        });
+        await worker.start();
+        await client.xadd("patients", codec.encode({headers, payload: patient}));
+        await expect.poll(() => client.xlen("patients:dlq"), {timeout: 5_000}).toBe(1);
+        await worker.stop();
+        expect(attempts).toBe(1);
+
+        const [raw] = await client.xrange("patients:dlq", "-", "+");
+        expect(raw.fields.kid).toBe("k1");
+        for (const value of Object.values(raw.fields)) expect(value.toString()).not.toContain(patient.ssn);
+
+        const rotated = encryptedCodec<Patient>(jsonCodec(), {keys: {k1, k2}, activeKid: "k2"});
+        const {entries: [dead]} = await makeDlqManager<Patient>({client, stream: "patients", codec: rotated}).list();
+        expect(dead.payload).toEqual(patient);
+        expect(dead.error).toEqual({reason: "rejected"});
+    });
+});
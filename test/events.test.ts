@@ -0,0 +1,130 @@
+import {
+    backoffPolicy,
+    jsonCodec,
+    makeConsumer,
+    makeEmitter,
+    makeProducer,
+    startPendingSweeper,
+    startRetryDaemon,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+describe('Lifecycle events', () => {
+
+    it('should emit ack, retry, dlq, idle and stopped from the consumer and promoted from the daemon', async () => {
+        const client = new InMemoryGlideKitClient();
+        const seen: string[] = [];
+        let failures = 1;
+
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            handler: async (job) => {
+                if (job.value === "dead") return {action: "dlq", reason: "bad"};
+                if (failures-- > 0) throw new Error("flaky");
+            },
+            retryPolicy: backoffPolicy({maxAttempts: 3, strategy: {kind: "constant", delayMs: 0}}),
+            batch: {count: 16, blockMs: 50},
+        });
+        const daemon = startRetryDaemon({client, retryZset: "test:retry", targetStream: "test", tickMs: 25});
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+
+        worker.on("ack", (e) => seen.push(`ack:${e.envelope.payload.value}:${e.envelope.headers.attempt}`));
+        worker.on("retry", (e) => seen.push(`retry:${e.envelope.payload.value}:${e.attempt}`));
+        worker.on("dlq", (e) => {
+            expect(e).toMatchObject({stream: "test", group: "svc", consumer: "c1", reason: "bad"});
+            expect(e.durationMs).toBeGreaterThanOrEqual(0);
+            seen.push(`dlq:${e.envelope.payload.value}`);
+            dlqAt = e.at;
+        });
+        worker.on("stopped", (e) => seen.push(`stopped:${e.drained}`));
+        const idleAt: number[] = [];
+        let dlqAt = Infinity;
+        worker.on("idle", (e) => {
+            expect(e.streams).toEqual(["test"]);
+            idleAt.push(e.at);
+        });
+        daemon.on("promoted", (e) => seen.push(`promoted:${e.count}`));
+
+        await worker.start();
+        daemon.start();
+        await producer.send({value: "ok"});
+        await expect.poll(() => seen, {timeout: 5_000}).toContain("ack:ok:1");
+        await producer.send({value: "dead"});
+        await expect.poll(() => seen, {timeout: 5_000}).toContain("dlq:dead");
+
+        // idle fires once the dead-lettered message is done and the next read comes back empty
+        await expect.poll(() => idleAt.some((at) => at >= dlqAt), {timeout: 5_000}).toBe(true);
+        await worker.stop();
+        await daemon.stop();
+
+        expect(seen).toEqual(["retry:ok:1", "promoted:1", "ack:ok:1", "dlq:dead", "stopped:true"]);
+    });
+
+    it('should emit claimed from the sweeper', async () => {
+        const client = new InMemoryGlideKitClient();
+        await client.xgroupCreate("test", "svc", "$", {mkStream: true});
+        const id = await client.xadd("test", {headers: "{}", payload: "{}"});
+        await client.xreadgroup({group: "svc", consumer: "gone", blockMs: 0, count: 1, streams: [{key: "test", id: ">"}]});
+
+        const sweeper = startPendingSweeper({client, stream: "test", group: "svc", consumer: "c2", minIdleMs: 0, tickMs: 25});
+        const claimed = new Promise((resolve) => sweeper.on("claimed", resolve));
+        const stopped = new Promise((resolve) => sweeper.on("stopped", resolve));
+        sweeper.start();
+
+        await expect(claimed).resolves.toMatchObject({stream: "test", group: "svc", consumer: "c2", ids: [id]});
+        await sweeper.stop();
+        await expect(stopped).resolves.toMatchObject({stream: "test"});
+    });
+
+    it('should emit sent, scheduled and error from the producer', async () => {
+        const client = new InMemoryGlideKitClient();
+        const json = jsonCodec<TestJob>();
+        const producer = makeProducer<TestJob>({
+            client,
+            stream: "test",
+            codec: {
+                ...json,
+                encode: (env) => {
+                    if (env.payload.value === "bad") throw new Error("cannot encode");
+                    return json.encode(env);
+                },
+            },
+        });
+        const seen: string[] = [];
+        producer.on("sent", (e) => seen.push(`sent:${e.envelope.payload.value}:${e.id}`));
+        producer.on("scheduled", (e) => seen.push(`scheduled:${e.envelope.payload.value}:${e.runAt - e.envelope.headers.enqueuedAt}`));
+        producer.on("error", (e) => seen.push(`error:${e.envelope.payload.value}:${(e.err as Error).message}`));
+
+        const id = await producer.send({value: "now"});
+        await producer.send({value: "later"}, {delayMs: 5_000});
+        await expect(producer.send({value: "bad"})).rejects.toThrow("cannot encode");
+
+        expect(seen).toEqual([`sent:now:${id}`, "scheduled:later:5000", "error:bad:cannot encode"]);
+    });
+
+    it('should isolate throwing listeners and support unsubscribing', () => {
+        const errors: unknown[] = [];
+        const emitter = makeEmitter<{ tick: number }>((_event, err) => errors.push(err));
+        const got: number[] = [];
+
+        emitter.on("tick", () => {
+            throw new Error("listener bug");
+        });
+        const off = emitter.on("tick", (n) => got.push(n));
+        emitter.emit("tick", 1);
+        off();
+        emitter.emit("tick", 2);
+
+        expect(got).toEqual([1]);
+        expect(errors).toHaveLength(2);
+    });
+});
@@ -0,0 +1,62 @@
+import {backoffPolicy, jsonCodec, makeFanInConsumer, makeProducer, startRetryDaemon} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+const fastBatch = {count: 16, blockMs: 50};
+
+describe('Fan-in consumer', () => {
+
+    it('should fan in several streams and keep acks, retries and DLQ per stream', async () => {
+        const client = new InMemoryGlideKitClient();
+        const emails: string[] = [];
+        let smsAttempts = 0;
+
+        const worker = makeFanInConsumer({
+            client,
+            group: "notify",
+            consumer: "c1",
+            codec: jsonCodec(),
+            retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 0}}),
+            streams: [
+                {
+                    stream: "email",
+                    handler: async (job: TestJob) => {
+                        emails.push(job.value);
+                    },
+                },
+                {
+                    stream: "sms",
+                    handler: async () => {
+                        smsAttempts++;
+                        throw new Error("sms gateway down");
+                    },
+                    retryPolicy: backoffPolicy({maxAttempts: 2, strategy: {kind: "constant", delayMs: 0}}),
+                },
+            ],
+            batch: fastBatch,
+            concurrency: 2,
+        });
+        const daemons = ["email", "sms"].map((stream) =>
+            startRetryDaemon({client, retryZset: `${stream}:retry`, targetStream: stream, tickMs: 25}));
+
+        await worker.start();
+        daemons.forEach((d) => d.start());
+        await makeProducer<TestJob>({client, stream: "email", codec: jsonCodec<TestJob>()}).send({value: "e1"});
+        await makeProducer<TestJob>({client, stream: "sms", codec: jsonCodec<TestJob>()}).send({value: "s1"});
+
+        await expect.poll(() => client.xlen("sms:dlq"), {timeout: 5_000}).toBe(1);
+        expect(emails).toEqual(["e1"]);
+        expect(smsAttempts).toBe(2);
+        expect(await client.xlen("email:dlq")).toBe(0);
+        for (const stream of ["email", "sms"]) {
+            expect(await client.xpending(stream, "notify", {idle: 0, count: 10, start: "-", end: "+"})).toEqual([]);
+        }
+
+        await worker.stop();
+        await Promise.all(daemons.map((d) => d.stop()));
+    });
+});
@@ -0,0 +1,116 @@
+import {
+    ConsumerStoppedError,
+    HandlerTimeoutError,
+    jsonCodec,
+    JobPayload,
+    makeConsumer,
+    makeRouter,
+    makeTypedProducer,
+    RetryPolicy,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+type Jobs = {
+    "slow": { n: number };
+    "fast": { n: number };
+};
+
+// Hangs until aborted, like a stuck network call that honours its signal.
+const hang = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason));
+});
+
+describe('Handler timeouts', () => {
+
+    it('should abort handlers past their per-type timeout and hand a HandlerTimeoutError to the retry policy', async () => {
+        const client = new InMemoryGlideKitClient();
+        const producer = makeTypedProducer<Jobs>({client, stream: "jobs", codec: jsonCodec<JobPayload<Jobs>>()});
+        const errors: unknown[] = [];
+        const aborted: unknown[] = [];
+        const retryPolicy: RetryPolicy = {
+            next: (_headers, err) => {
+                errors.push(err);
+                return {action: "dlq", reason: "timeout"};
+            },
+        };
+        const router = makeRouter<Jobs>()
+            .on("slow", async (_job, {signal}) => {
+                signal.addEventListener("abort", () => aborted.push(signal.reason));
+                await hang(signal);
+            }, {timeoutMs: 50})
+            .on("fast", async (_job, {signal}) => {
+                await new Promise((r) => setTimeout(r, 100));
+                if (signal.aborted) throw signal.reason;
+            });
+
+        const worker = makeConsumer<JobPayload<Jobs>>({
+            client,
+            stream: "jobs",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec<JobPayload<Jobs>>(),
+            handler: router.handler,
+            retryPolicy,
+            handlerTimeoutMs: router.handlerTimeoutMs(1_000),
+            batch: {count: 16, blockMs: 50},
+        });
+        const acked: string[] = [];
+        worker.on("ack", (e) => acked.push(e.envelope.headers.type));
+        await worker.start();
+        await producer.send("slow", {n: 1});
+        await producer.send("fast", {n: 2});
+
+        await expect.poll(() => client.xlen("jobs:dlq"), {timeout: 5_000}).toBe(1);
+        await expect.poll(() => acked, {timeout: 5_000}).toEqual(["fast"]);
+        await worker.stop();
+
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toBeInstanceOf(HandlerTimeoutError);
+        expect(errors[0]).toMatchObject({timeoutMs: 50});
+        expect(aborted).toEqual([errors[0]]);
+    });
+
+    it('should abort running handlers on stop without draining and leave their entries pending', async () => {
+        const client = new InMemoryGlideKitClient();
+        const started: string[] = [];
+        const reasons: unknown[] = [];
+        let policyCalls = 0;
+        const worker = makeConsumer<{ n: number }>({
+            client,
+            stream: "jobs",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec<{ n: number }>(),
+            concurrency: 2,
+            handler: async (_job, {id, signal}) => {
+                started.push(id);
+                await hang(signal).catch((err) => {
+                    reasons.push(err);
+                    throw err;
+                });
+            },
+            retryPolicy: {
+                next: () => {
+                    policyCalls++;
+                    return {action: "dlq", reason: "stopped"};
+                },
+            },
+            batch: {count: 16, blockMs: 50},
+        });
+        await worker.start();
+        await client.xadd("jobs", jsonCodec<{ n: number }>().encode({headers: {type: "job", attempt: 0, enqueuedAt: 0}, payload: {n: 1}}));
+        await client.xadd("jobs", jsonCodec<{ n: number }>().encode({headers: {type: "job", attempt: 0, enqueuedAt: 0}, payload: {n: 2}}));
+        await expect.poll(() => started.length, {timeout: 5_000}).toBe(2);
+
+        await worker.stop({drain: false});
+
+        expect(reasons).toHaveLength(2);
+        expect(reasons.every((reason) => reason instanceof ConsumerStoppedError)).toBe(true);
+        await new Promise((r) => setTimeout(r, 50));
+        // no attempt was spent: the entries wait in the PEL for the next claim
+        expect(policyCalls).toBe(0);
+        expect(await client.xlen("jobs:dlq")).toBe(0);
+        expect(await client.xpending("jobs", "svc", {idle: 0, count: 10, start: "-", end: "+"})).toHaveLength(2);
+    });
+});
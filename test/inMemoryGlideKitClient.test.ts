@@ -0,0 +1,215 @@
+import {
+    backoffPolicy,
+    ConditionalSet,
+    jsonCodec,
+    makeConsumer,
+    makeProducer,
+    startPendingSweeper,
+    startRetryDaemon,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+const fastBatch = {count: 16, blockMs: 50};
+
+describe('InMemoryGlideKitClient', () => {
+
+    it('should expire SET NX EX keys on the fake clock', async () => {
+        const client = new InMemoryGlideKitClient();
+
+        expect(await client.set("k", "a", 10, ConditionalSet.NX)).toBe("OK");
+        expect(await client.set("k", "b", 10, ConditionalSet.NX)).toBeNull();
+        expect(await client.get("k")).toBe("a");
+
+        client.advanceTime(10_000);
+        expect(await client.get("k")).toBeNull();
+        expect(await client.set("k", "b", 10, ConditionalSet.NX)).toBe("OK");
+    });
+
+    it('should track PEL idle time and delivery counts', async () => {
+        const client = new InMemoryGlideKitClient({clock: () => 1_000_000});
+        await client.xgroupCreate("s", "g", "$", {mkStream: true});
+        const id = await client.xadd("s", {a: "1"});
+
+        const read = await client.xreadgroup({group: "g", consumer: "c1", blockMs: 0, count: 10, streams: [{key: "s", id: ">"}]});
+        expect(read?.[0].messages.map((m) => m.id)).toEqual([id]);
+
+        expect(await client.xpending("s", "g", {idle: 1000, count: 10, start: "-", end: "+"})).toEqual([]);
+        client.advanceTime(1500);
+        const pending = await client.xpending("s", "g", {idle: 1000, count: 10, start: "-", end: "+"});
+        expect(pending).toEqual([{id, consumer: "c1", idle: 1500, deliveries: 1}]);
+
+        const claimed = await client.xclaim("s", "g", "c2", 1000, [id!]);
+        expect(claimed).toEqual([{id, fields: {a: "1"}}]);
+        const [after] = await client.xpending("s", "g", {idle: 0, count: 10, start: "-", end: "+"});
+        expect(after).toMatchObject({consumer: "c2", idle: 0, deliveries: 2});
+
+        expect(await client.xack("s", "g", [id!])).toBe(1);
+        expect(await client.xinfoGroups("s")).toEqual([
+            expect.objectContaining({name: "g", pending: 0, lag: 0}),
+        ]);
+    });
+
+    it('should autoclaim with a cursor and report entries trimmed from the stream', async () => {
+        const client = new InMemoryGlideKitClient({clock: () => 1_000_000});
+        await client.xgroupCreate("s", "g", "$", {mkStream: true});
+        const ids = [await client.xadd("s", {n: "1"}), await client.xadd("s", {n: "2"}), await client.xadd("s", {n: "3"})];
+        await client.xreadgroup({group: "g", consumer: "c1", blockMs: 0, count: 10, streams: [{key: "s", id: ">"}]});
+        await client.xdel("s", [ids[1]!]);
+        client.advanceTime(1500);
+
+        const first = await client.xautoclaim("s", "g", "c2", 1000, "0-0", {count: 2});
+        expect(first).toEqual({nextId: ids[2], entries: [{id: ids[0], fields: {n: "1"}}], deletedIds: [ids[1]]});
+        const second = await client.xautoclaim("s", "g", "c2", 1000, first.nextId, {count: 2});
+        expect(second).toEqual({nextId: "0-0", entries: [{id: ids[2], fields: {n: "3"}}], deletedIds: []});
+        expect(await client.xpending("s", "g", {idle: 0, count: 10, start: "-", end: "+"})).toEqual([
+            expect.objectContaining({id: ids[0], consumer: "c2", deliveries: 2}),
+            expect.objectContaining({id: ids[2], consumer: "c2", deliveries: 2}),
+        ]);
+    });
+
+    it('should emulate the producer idempotency script', async () => {
+        const client = new InMemoryGlideKitClient();
+        const producer = makeProducer<TestJob>({
+            client,
+            stream: "test",
+            codec: jsonCodec<TestJob>(),
+            idempotency: {ttlSec: 60},
+        });
+
+        const first = await producer.send({value: "a"}, {key: "k1"});
+        const second = await producer.send({value: "a"}, {key: "k1"});
+
+        expect(second).toBe(first);
+        expect(await client.xlen("test")).toBe(1);
+    });
+
+    it('should retry through the retry daemon and then ack', async () => {
+        const client = new InMemoryGlideKitClient();
+        const testFn = vi.fn((_job: TestJob) => Promise.resolve());
+        testFn.mockRejectedValueOnce(new Error("test error"));
+        testFn.mockRejectedValueOnce(new Error("test error 2"));
+
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "test:svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 0}}),
+            handler: async (job) => {
+                await testFn(job);
+            },
+            batch: fastBatch,
+        });
+        const daemon = startRetryDaemon({client, retryZset: "test:retry", targetStream: "test", tickMs: 25});
+
+        await worker.start();
+        daemon.start();
+        await producer.send({value: "hello"});
+
+        await expect.poll(() => testFn, {timeout: 5_000}).toBeCalledTimes(3);
+        await expect.poll(() => client.xpending("test", "test:svc", {idle: 0, count: 10, start: "-", end: "+"}))
+            .toEqual([]);
+
+        await worker.stop();
+        await daemon.stop();
+    });
+
+    it('should send max retried entries to the DLQ', async () => {
+        const client = new InMemoryGlideKitClient();
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "test:svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            retryPolicy: backoffPolicy({maxAttempts: 2, strategy: {kind: "constant", delayMs: 0}}),
+            handler: async () => {
+                throw new Error("always");
+            },
+            batch: fastBatch,
+        });
+        const daemon = startRetryDaemon({client, retryZset: "test:retry", targetStream: "test", tickMs: 25});
+
+        await worker.start();
+        daemon.start();
+        await producer.send({value: "hello"});
+
+        await expect.poll(() => client.xlen("test:dlq"), {timeout: 5_000}).toBe(1);
+
+        await worker.stop();
+        await daemon.stop();
+    });
+
+    it('should promote each due retry member exactly once across daemons and dead-letter invalid members', async () => {
+        const client = new InMemoryGlideKitClient();
+        const now = Date.now();
+        await client.zadd("test:retry", [
+            ...Array.from({length: 10}, (_, i) => ({
+                score: now - 1000 + i,
+                member: JSON.stringify({stream: "test", fields: {n: String(i)}}),
+            })),
+            {score: now + 60_000, member: JSON.stringify({stream: "test", fields: {n: "later"}})},
+            {score: now - 5000, member: "not json"},
+            // XADD rejects these, which would fail the script on every tick
+            {score: now - 5000, member: JSON.stringify({stream: "test", fields: {}})},
+            {score: now - 5000, member: JSON.stringify({stream: "test", fields: {n: 1}})},
+            {score: now - 5000, member: JSON.stringify({stream: "test:other", fields: {n: "other"}})},
+            {score: now - 5000, member: JSON.stringify({stream: "elsewhere", fields: {n: "elsewhere"}})},
+        ]);
+
+        const daemons = [1, 2, 3].map(() => startRetryDaemon({
+            client, retryZset: "test:retry", targetStream: "test", streams: ["test:other"], maxBatch: 2, tickMs: 25,
+        }));
+        daemons.forEach((d) => d.start());
+
+        await expect.poll(() => client.xlen("test"), {timeout: 5_000}).toBe(10);
+        await Promise.all(daemons.map((d) => d.stop()));
+
+        expect(await client.xlen("test")).toBe(10);
+        expect(await client.xlen("test:other")).toBe(1);
+        const dead = await client.xrange("test:dlq", "-", "+");
+        expect(dead.map((e) => JSON.parse(String(e.fields.error)).reason).sort()).toEqual([
+            "invalid-retry-member", "invalid-retry-member", "invalid-retry-member", "undeclared-stream",
+        ]);
+        expect(await client.zrangebyscore("test:retry", -Infinity, Infinity)).toEqual([
+            {score: now + 60_000, member: JSON.stringify({stream: "test", fields: {n: "later"}})},
+        ]);
+    });
+
+    it('should let the pending sweeper requeue idle entries', async () => {
+        const client = new InMemoryGlideKitClient();
+        await client.xgroupCreate("test", "test:svc", "$", {mkStream: true});
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const id = await producer.send({value: "stuck"});
+        await client.xreadgroup({group: "test:svc", consumer: "dead", blockMs: 0, count: 10, streams: [{key: "test", id: ">"}]});
+        client.advanceTime(60_000);
+
+        const sweeper = startPendingSweeper({
+            client,
+            stream: "test",
+            group: "test:svc",
+            consumer: "sweeper",
+            minIdleMs: 30_000,
+            tickMs: 25,
+            recovery: {mode: "requeue", codec: jsonCodec<TestJob>()},
+        });
+        sweeper.start();
+
+        await expect.poll(() => client.xlen("test"), {timeout: 5_000}).toBe(2);
+        await sweeper.stop();
+
+        expect(await client.xpending("test", "test:svc", {idle: 0, count: 10, start: "-", end: "+"})).toEqual([]);
+        const [, requeued] = await client.xrange("test", "-", "+");
+        expect(requeued.id).not.toBe(id);
+        expect(JSON.parse(String(requeued.fields.headers))).toMatchObject({attempt: 1});
+        expect(JSON.parse(String(requeued.fields.payload))).toEqual({value: "stuck"});
+    });
+});
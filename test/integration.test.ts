@@ -3,6 +3,7 @@ import {
     consoleLogger,
     jsonCodec,
     makeConsumer,
+    makeDlqManager,
     makeProducer,
     startRetryDaemon,
     GlideKitClient
@@ -277,4 +278,66 @@ describe('Integration', async () => {
 
     }, 60_000);
 
+    it('should run the scripts with every key declared on hash-tagged keys', async () => {
+        // one hash tag per run, so every key the scripts touch lands in the same slot on a cluster
+        const stream = `{it-${Math.random().toString(36).slice(2)}}`;
+        const seen: string[] = [];
+        let failedOnce = false;
+
+        const producer = makeProducer<TestJob>({
+            client,
+            stream,
+            codec: jsonCodec<TestJob>(),
+            idempotency: {ttlSec: 60},
+        });
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream,
+            group: `${stream}:svc`,
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            retryPolicy: {next: (headers) => headers.attempt < 1 ? {action: "retry", delayMs: 500} : {action: "dlq", reason: "gave up"}},
+            handler: async (job) => {
+                seen.push(job.value);
+                if (job.value === "a1" && !failedOnce) {
+                    failedOnce = true;
+                    throw new Error("first attempt fails");
+                }
+                if (job.value === "dead") throw new Error("always fails");
+            },
+            batch: {count: 16, blockMs: 100},
+            concurrency: 4,
+            ordering: {},
+        });
+        const daemon = startRetryDaemon({client, retryZset: `${stream}:retry`, targetStream: stream, tickMs: 50});
+        await worker.start();
+        daemon.start();
+
+        const first = await producer.send({value: "a1"}, {key: "A"});
+        expect(await producer.send({value: "a1"}, {key: "A"})).toBe(first);
+        await producer.send({value: "a2"}, {type: "other", key: "A"});
+        await producer.send({value: "dead"}, {key: "D"});
+        await expect.poll(() => seen.filter((v) => v.startsWith("a")), {timeout: 30_000}).toEqual(["a1", "a1", "a2"]);
+        await expect.poll(() => client.xlen(`${stream}:dlq`), {timeout: 30_000}).toBe(1);
+        await expect.poll(() => client.get(`${stream}:order:${stream}:svc:A`), {timeout: 30_000}).toBeNull();
+
+        // a member naming a stream the daemon was not given is dead-lettered instead of written blindly, and so is
+        // one whose fields XADD would reject, instead of failing every tick
+        await client.zadd(`${stream}:retry`, [
+            {member: JSON.stringify({stream: "elsewhere", fields: {n: "x"}}), score: 0},
+            {member: JSON.stringify({stream, fields: {}}), score: 0},
+        ]);
+        await expect.poll(() => client.xlen(`${stream}:dlq`), {timeout: 30_000}).toBe(3);
+
+        const dlq = makeDlqManager<TestJob>({client, stream, codec: jsonCodec<TestJob>()});
+        const {entries: [dead]} = await dlq.list({reason: "gave up"});
+        const [{requeuedAs}] = await dlq.requeue(dead.id);
+        expect(requeuedAs).toEqual(expect.any(String));
+        await expect.poll(() => seen.filter((v) => v === "dead").length, {timeout: 30_000}).toBe(4);
+
+        await worker.stop();
+        await daemon.stop();
+        for (const key of [stream, `${stream}:retry`, `${stream}:dlq`]) await client.del(key);
+    }, 60_000);
+
 });
@@ -0,0 +1,112 @@
+import {backoffPolicy, getJobProgress, jsonCodec, makeConsumer, makeProducer} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+const retryPolicy = backoffPolicy({maxAttempts: 3, strategy: {kind: "constant", delayMs: 0}});
+
+describe('Leases', () => {
+
+    it('should keep a long-running handler\'s entry from being claimed by another consumer', async () => {
+        const client = new InMemoryGlideKitClient();
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const runs: string[] = [];
+        const progress: unknown[] = [];
+        let release!: () => void;
+        const released = new Promise<void>((r) => release = r);
+
+        const slow = makeConsumer<TestJob>({
+            client, stream: "test", group: "svc", consumer: "slow", codec: jsonCodec<TestJob>(), retryPolicy,
+            heartbeatMs: 30,
+            handler: async (_job, ctx) => {
+                runs.push("slow");
+                await ctx.reportProgress(50, {frames: 120});
+                progress.push(await getJobProgress({client, stream: "test", id: ctx.id}));
+                await released;
+                expect(await ctx.extendLease()).toBe(true);
+            },
+            batch: {count: 16, blockMs: 50},
+        });
+        const thief = makeConsumer<TestJob>({
+            client, stream: "test", group: "svc", consumer: "thief", codec: jsonCodec<TestJob>(), retryPolicy,
+            handler: async () => {
+                runs.push("thief");
+            },
+            batch: {count: 16, blockMs: 50},
+            pelClaim: {enabled: true, minIdleMs: 100, intervalMs: 20},
+        });
+        await slow.start();
+        const id = await producer.send({value: "transcode"});
+        await expect.poll(() => runs, {timeout: 5_000}).toEqual(["slow"]);
+        await thief.start();
+
+        await new Promise((r) => setTimeout(r, 400));
+        release();
+        await slow.stop();
+        await thief.stop();
+
+        expect(runs).toEqual(["slow"]);
+        expect(progress).toEqual([expect.objectContaining({pct: 50, data: {frames: 120}, consumer: "slow"})]);
+        expect(await client.xpending("test", "svc", {idle: 0, count: 10, start: "-", end: "+"})).toEqual([]);
+        expect(await getJobProgress({client, stream: "test", id: id!})).toMatchObject({pct: 50});
+    });
+
+    it('should default the heartbeat below pelClaim.minIdleMs', async () => {
+        const client = new InMemoryGlideKitClient();
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const runs: string[] = [];
+        let release!: () => void;
+        const released = new Promise<void>((r) => release = r);
+
+        const [slow, thief] = ["slow", "thief"].map((consumer) => makeConsumer<TestJob>({
+            client, stream: "test", group: "svc", consumer, codec: jsonCodec<TestJob>(), retryPolicy,
+            handler: async () => {
+                runs.push(consumer);
+                if (consumer === "slow") await released;
+            },
+            batch: {count: 16, blockMs: 50},
+            pelClaim: {enabled: true, minIdleMs: 150, intervalMs: 20},
+        }));
+        await slow.start();
+        await producer.send({value: "transcode"});
+        await expect.poll(() => runs, {timeout: 5_000}).toEqual(["slow"]);
+        await thief.start();
+
+        await new Promise((r) => setTimeout(r, 500));
+        release();
+        await slow.stop();
+        await thief.stop();
+
+        expect(runs).toEqual(["slow"]);
+    });
+
+    it('should report a lost lease instead of claiming the entry back', async () => {
+        const client = new InMemoryGlideKitClient();
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const leases: boolean[] = [];
+        let release!: () => void;
+        const released = new Promise<void>((r) => release = r);
+
+        const worker = makeConsumer<TestJob>({
+            client, stream: "test", group: "svc", consumer: "c1", codec: jsonCodec<TestJob>(), retryPolicy,
+            heartbeatMs: 0,
+            handler: async (_job, ctx) => {
+                leases.push(await ctx.extendLease());
+                await released;
+                leases.push(await ctx.extendLease());
+            },
+            batch: {count: 16, blockMs: 50},
+        });
+        await worker.start();
+        const id = await producer.send({value: "x"});
+        await expect.poll(() => leases, {timeout: 5_000}).toEqual([true]);
+
+        await client.xclaim("test", "svc", "c2", 0, [id!]);
+        release();
+        await expect.poll(() => leases, {timeout: 5_000}).toEqual([true, false]);
+        await worker.stop();
+    });
+});
@@ -0,0 +1,109 @@
+import {
+    backoffPolicy,
+    jsonCodec,
+    makeConsumer,
+    makeProducer,
+    makePrometheusRegistry,
+    MeterLike,
+    otelMetricsSink,
+    startPendingSweeper,
+    startRetryDaemon,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+describe('Metrics', () => {
+
+    it('should report producer, consumer, daemon and sweeper metrics to a Prometheus registry', async () => {
+        const client = new InMemoryGlideKitClient();
+        const metrics = makePrometheusRegistry({buckets: [10, 1000]});
+        let failures = 1;
+
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>(), metrics});
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            handler: async (job) => {
+                if (job.value === "dead") return {action: "dlq", reason: "bad"};
+                if (failures-- > 0) throw new Error("flaky");
+            },
+            retryPolicy: backoffPolicy({maxAttempts: 3, strategy: {kind: "constant", delayMs: 0}}),
+            batch: {count: 16, blockMs: 50},
+            metrics,
+        });
+        const daemon = startRetryDaemon({client, retryZset: "test:retry", targetStream: "test", tickMs: 25, metrics});
+
+        await worker.start();
+        daemon.start();
+        await producer.send({value: "ok"}, {type: "job"});
+        await producer.send({value: "dead"}, {type: "job"});
+        await expect.poll(() => metrics.render(), {timeout: 5_000})
+            .toContain('glidekit_processed_total{group="svc",outcome="ack",stream="test",type="job"} 1');
+        await worker.stop();
+        await daemon.stop();
+
+        // an entry left pending by a crashed consumer
+        await client.xgroupCreate("orphans", "svc", "$", {mkStream: true});
+        await client.xadd("orphans", {headers: JSON.stringify({type: "job", attempt: 0, enqueuedAt: 0}), payload: "{}"});
+        await client.xreadgroup({group: "svc", consumer: "gone", blockMs: 0, count: 1, streams: [{key: "orphans", id: ">"}]});
+        const sweeper = startPendingSweeper({client, stream: "orphans", group: "svc", consumer: "c2", minIdleMs: 0, tickMs: 25, metrics});
+        sweeper.start();
+        await expect.poll(() => metrics.render(), {timeout: 5_000}).toContain('glidekit_claimed_total{group="svc",stream="orphans"} 1');
+        // the claimed entry is requeued and acked, so the next tick sees an empty PEL
+        await expect.poll(() => metrics.render(), {timeout: 5_000}).toContain('glidekit_pel_size{group="svc",stream="orphans"} 0');
+        await sweeper.stop();
+
+        const text = metrics.render();
+        expect(text).toContain("# TYPE glidekit_produced_total counter");
+        expect(text).toContain('glidekit_produced_total{stream="test",type="job"} 2');
+        expect(text).toContain('glidekit_processed_total{group="svc",outcome="retry",stream="test",type="job"} 1');
+        expect(text).toContain('glidekit_retry_scheduled_total{group="svc",stream="test",type="job"} 1');
+        expect(text).toContain('glidekit_dlq_total{group="svc",stream="test",type="job"} 1');
+        expect(text).toContain('glidekit_in_flight{group="svc",stream="test"} 0');
+        expect(text).toContain('glidekit_retry_queue_depth{stream="test"} 0');
+        expect(text).toContain('glidekit_handler_duration_ms_bucket{group="svc",stream="test",type="job",le="+Inf"} 3');
+        expect(text).toContain('glidekit_handler_duration_ms_count{group="svc",stream="test",type="job"} 3');
+    });
+
+    it('should escape label values and reset', () => {
+        const metrics = makePrometheusRegistry({prefix: ""});
+        metrics.increment("dlq_total", {stream: 'a"b\\c\nd'}, 2);
+
+        expect(metrics.render()).toContain('dlq_total{stream="a\\"b\\\\c\\nd"} 2');
+        metrics.reset();
+        expect(metrics.render()).toBe("");
+    });
+
+    it('should map to OpenTelemetry instruments', () => {
+        const recorded: Array<[string, number, unknown]> = [];
+        const callbacks: Array<(r: { observe(v: number, a?: Record<string, string>): void }) => void> = [];
+        const meter: MeterLike = {
+            createCounter: (name) => ({add: (v, a) => recorded.push([name, v, a])}),
+            createHistogram: (name) => ({record: (v, a) => recorded.push([name, v, a])}),
+            createObservableGauge: () => ({addCallback: (cb) => callbacks.push(cb)}),
+        };
+        const sink = otelMetricsSink(meter);
+
+        sink.increment("produced_total", {stream: "s"});
+        sink.observe("handler_duration_ms", {stream: "s"}, 12);
+        sink.gauge("in_flight", {stream: "s"}, 3);
+        sink.gauge("in_flight", {stream: "s"}, 1);
+        sink.gauge("in_flight", {stream: "t"}, 2);
+
+        expect(recorded).toEqual([
+            ["glidekit.produced_total", 1, {stream: "s"}],
+            ["glidekit.handler_duration_ms", 12, {stream: "s"}],
+        ]);
+        const observed: Array<[number, unknown]> = [];
+        expect(callbacks).toHaveLength(1);
+        callbacks[0]({observe: (v, a) => observed.push([v, a])});
+        expect(observed).toEqual([[1, {stream: "s"}], [2, {stream: "t"}]]);
+    });
+});
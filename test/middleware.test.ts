@@ -0,0 +1,105 @@
+import {
+    backoffPolicy,
+    jsonCodec,
+    makeConsumer,
+    makeProducer,
+    Middleware,
+    startRetryDaemon,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+describe('Consumer middleware', () => {
+
+    it('should run middleware in order around the handler and let it rewrite results', async () => {
+        const client = new InMemoryGlideKitClient();
+        const calls: string[] = [];
+
+        const trace: Middleware<TestJob> = async (ctx, next) => {
+            calls.push(`trace:before:${ctx.envelope.payload.value}`);
+            const res = await next();
+            calls.push(`trace:after:${res.action}`);
+            return res;
+        };
+        const upper: Middleware<TestJob> = (ctx, next) =>
+            next({...ctx.envelope, payload: {value: ctx.envelope.payload.value.toUpperCase()}});
+        // Turns "bad" payloads into DLQ entries without running the handler; failures become non-retryable.
+        const guard: Middleware<TestJob> = async (ctx, next) => {
+            if (ctx.envelope.payload.value === "BAD") return {action: "dlq", reason: "rejected"};
+            const res = await next();
+            return res.action === "retry" ? {action: "dlq", reason: "handler-failed"} : res;
+        };
+
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            handler: async (job) => {
+                calls.push(`handler:${job.value}`);
+                if (job.value === "BOOM") throw new Error("boom");
+            },
+            retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 0}}),
+            middleware: [trace, upper, guard],
+            batch: {count: 16, blockMs: 50},
+        });
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+
+        await worker.start();
+        await producer.send({value: "ok"});
+        await producer.send({value: "bad"});
+        await producer.send({value: "boom"});
+
+        await expect.poll(() => client.xlen("test:dlq"), {timeout: 5_000}).toBe(2);
+        await expect.poll(() => calls.length, {timeout: 5_000}).toBe(8);
+        expect(calls).toEqual([
+            "trace:before:ok", "handler:OK", "trace:after:ack",
+            "trace:before:bad", "trace:after:dlq",
+            "trace:before:boom", "handler:BOOM", "trace:after:dlq",
+        ]);
+        const reasons = (await client.xrange("test:dlq", "-", "+")).map((e) => JSON.parse(String(e.fields.error)).reason);
+        expect(reasons).toEqual(["rejected", "handler-failed"]);
+        expect(await client.call("ZCARD", "test:retry")).toBe(0);
+
+        await worker.stop();
+    });
+
+    it('should retry a key held by another consumer without counting an attempt', async () => {
+        const client = new InMemoryGlideKitClient();
+        const attempts: number[] = [];
+        await client.set("consumed:test:k1", "PENDING:other", 60);
+
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            handler: async (_job, {headers}) => {
+                attempts.push(headers.attempt);
+            },
+            retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 0}}),
+            idempotency: {pendingTtlSec: 60, doneTtlSec: 600},
+            batch: {count: 16, blockMs: 50},
+        });
+        const daemon = startRetryDaemon({client, retryZset: "test:retry", targetStream: "test", tickMs: 25});
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+
+        await worker.start();
+        daemon.start();
+        await producer.send({value: "v"}, {key: "k1"});
+        await expect.poll(() => client.call("ZCARD", "test:retry"), {timeout: 5_000}).toBe(1);
+        await client.del("consumed:test:k1");
+
+        await expect.poll(() => attempts, {timeout: 5_000}).toEqual([0]);
+        await expect.poll(() => client.get("consumed:test:k1"), {timeout: 5_000}).toBe("DONE");
+
+        await worker.stop();
+        await daemon.stop();
+    });
+});
@@ -0,0 +1,103 @@
+import {backoffPolicy, jsonCodec, makeConsumer, makeProducer, startRetryDaemon} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+const fastBatch = {count: 16, blockMs: 50};
+
+describe('Ordering', () => {
+
+    it('should keep messages with the same ordering key in order across retries', async () => {
+        const client = new InMemoryGlideKitClient();
+        const seen: string[] = [];
+        let failedOnce = false;
+
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "test:svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 50}}),
+            handler: async (job) => {
+                seen.push(job.value);
+                if (job.value === "a1" && !failedOnce) {
+                    failedOnce = true;
+                    throw new Error("first attempt fails");
+                }
+            },
+            batch: fastBatch,
+            concurrency: 4,
+            ordering: {},
+        });
+        const daemon = startRetryDaemon({client, retryZset: "test:retry", targetStream: "test", tickMs: 25});
+
+        await worker.start();
+        daemon.start();
+        await producer.send({value: "a1"}, {key: "A"});
+        await producer.send({value: "a2"}, {key: "A"});
+        await producer.send({value: "a3"}, {key: "A"});
+        await producer.send({value: "b1"}, {key: "B"});
+
+        await expect.poll(() => seen.length, {timeout: 5_000}).toBe(5);
+        expect(seen.filter((v) => v.startsWith("a"))).toEqual(["a1", "a1", "a2", "a3"]);
+        // b1 is not held back by the retry of a1
+        expect(seen.indexOf("b1")).toBeLessThan(seen.lastIndexOf("a1"));
+        await expect.poll(() => client.get("test:order:test:svc:A")).toBeNull();
+
+        await worker.stop();
+        await daemon.stop();
+    });
+
+    it('should not strand parked messages when the ordering hold expires', async () => {
+        const client = new InMemoryGlideKitClient();
+        const seen: string[] = [];
+        // the retries are never promoted: no daemon runs, as if they were lost
+        const workerFor = (stream: string, sweepIntervalMs: number) => makeConsumer<TestJob>({
+            client,
+            stream,
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 1000}}),
+            handler: async (job) => {
+                seen.push(job.value);
+                if (job.value.endsWith("1")) throw new Error("held");
+            },
+            batch: fastBatch,
+            ordering: {holdTtlSec: 60, sweepIntervalMs},
+        });
+        const admitting = workerFor("test", 60_000);
+        const sweeping = workerFor("swept", 25);
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+        const sweptProducer = makeProducer<TestJob>({client, stream: "swept", codec: jsonCodec<TestJob>()});
+        await admitting.start();
+        await sweeping.start();
+
+        await producer.send({value: "a1"}, {key: "A"});
+        await sweptProducer.send({value: "b1"}, {key: "B"});
+        await expect.poll(() => seen, {timeout: 5_000}).toEqual(expect.arrayContaining(["a1", "b1"]));
+        await producer.send({value: "a2"}, {key: "A"});
+        await sweptProducer.send({value: "b2"}, {key: "B"});
+        await expect.poll(() => client.call("LLEN", "test:order:svc:A:parked"), {timeout: 5_000}).toBe(1);
+        await expect.poll(() => client.call("LLEN", "swept:order:svc:B:parked"), {timeout: 5_000}).toBe(1);
+        client.advanceTime(62_000);
+
+        // a new message for the key finds the hold gone and queues behind the parked one
+        await producer.send({value: "a3"}, {key: "A"});
+        await expect.poll(() => seen.filter((v) => v.startsWith("a")), {timeout: 5_000}).toEqual(["a1", "a2", "a3"]);
+        // with nothing else arriving, the sweep re-enqueues it
+        await expect.poll(() => seen, {timeout: 5_000}).toContain("b2");
+        await expect.poll(() => client.get("test:order:svc:A"), {timeout: 5_000}).toBeNull();
+        await expect.poll(() => client.get("swept:order:svc:B"), {timeout: 5_000}).toBeNull();
+        await admitting.stop();
+        await sweeping.stop();
+
+        expect(await client.zcard("test:parked:svc")).toBe(0);
+        expect(await client.zcard("swept:parked:svc")).toBe(0);
+    });
+});
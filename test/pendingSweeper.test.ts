@@ -0,0 +1,153 @@
+import {backoffPolicy, ConsumerStoppedError, jsonCodec, makeProducer, startPendingSweeper} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+async function strand(client: InMemoryGlideKitClient, values: string[]) {
+    await client.xgroupCreate("test", "svc", "0", {mkStream: true});
+    const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+    for (const value of values) await producer.send({value});
+    await client.xreadgroup({group: "svc", consumer: "crashed", blockMs: 0, count: 10, streams: [{key: "test", id: ">"}]});
+    client.advanceTime(60_000);
+}
+
+describe('PendingSweeper recovery', () => {
+
+    it('should hand claimed entries to a handler with consumer ack/retry/DLQ semantics', async () => {
+        const client = new InMemoryGlideKitClient();
+        await strand(client, ["ok", "flaky", "dead"]);
+        const handled: string[] = [];
+
+        const sweeper = startPendingSweeper({
+            client,
+            stream: "test",
+            group: "svc",
+            consumer: "recovery",
+            minIdleMs: 30_000,
+            tickMs: 25,
+            recovery: {
+                mode: "handle",
+                codec: jsonCodec<TestJob>(),
+                retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 1000}}),
+                handler: async (job: TestJob) => {
+                    handled.push(job.value);
+                    if (job.value === "flaky") throw new Error("flaky");
+                    if (job.value === "dead") return {action: "dlq", reason: "bad"};
+                },
+            },
+        });
+        sweeper.start();
+        await expect.poll(() => client.xpending("test", "svc", {idle: 0, count: 10, start: "-", end: "+"}), {timeout: 5_000})
+            .toEqual([]);
+        await sweeper.stop();
+
+        expect(handled.sort()).toEqual(["dead", "flaky", "ok"]);
+        expect(await client.xlen("test:dlq")).toBe(1);
+        const [retry] = await client.zrangebyscore("test:retry", -Infinity, Infinity);
+        expect(JSON.parse(JSON.parse(retry.member).fields.headers)).toMatchObject({attempt: 1});
+    });
+
+    it('should stop in "handle" mode while a hung handler holds the only slot', async () => {
+        const client = new InMemoryGlideKitClient();
+        await strand(client, ["hung", "waiting"]);
+        const handled: string[] = [];
+        const aborted: unknown[] = [];
+
+        const sweeper = startPendingSweeper({
+            client, stream: "test", group: "svc", consumer: "recovery", minIdleMs: 30_000, tickMs: 25,
+            drainTimeoutMs: 50,
+            recovery: {
+                mode: "handle",
+                codec: jsonCodec<TestJob>(),
+                concurrency: 1,
+                retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 1000}}),
+                handler: (job: TestJob, {signal}) => {
+                    handled.push(job.value);
+                    signal.addEventListener("abort", () => aborted.push(signal.reason));
+                    return new Promise(() => {
+                        // never settles, even when aborted
+                    });
+                },
+            },
+        });
+        sweeper.start();
+        await expect.poll(() => handled, {timeout: 5_000}).toEqual(["hung"]);
+        await sweeper.stop();
+
+        expect(handled).toEqual(["hung"]);
+        expect(aborted).toEqual([expect.any(ConsumerStoppedError)]);
+        // both stay pending for the next claim
+        expect(await client.xpending("test", "svc", {idle: 0, count: 10, start: "-", end: "+"})).toHaveLength(2);
+        expect(await client.xlen("test:dlq")).toBe(0);
+    });
+
+    it('should requeue each entry once across sweepers and dead-letter undecodable ones', async () => {
+        const client = new InMemoryGlideKitClient();
+        await client.xadd("test", {garbage: "1"});
+        await strand(client, ["a", "b"]);
+        const dead: string[] = [];
+
+        const sweepers = ["s1", "s2", "s3"].map((consumer) => startPendingSweeper({
+            client, stream: "test", group: "svc", consumer, minIdleMs: 30_000, tickMs: 25,
+            recovery: {mode: "requeue", codec: jsonCodec()},
+        }));
+        sweepers.forEach((s) => s.on("dlq", (e) => dead.push(...e.ids)));
+        sweepers.forEach((s) => s.start());
+        await expect.poll(() => client.xpending("test", "svc", {idle: 0, count: 10, start: "-", end: "+"}), {timeout: 5_000})
+            .toEqual([]);
+        await Promise.all(sweepers.map((s) => s.stop()));
+
+        const entries = await client.xrange("test", "-", "+");
+        const requeued = entries.filter((e) => e.fields.headers && JSON.parse(String(e.fields.headers)).attempt === 1);
+        expect(requeued.map((e) => JSON.parse(String(e.fields.payload)).value).sort()).toEqual(["a", "b"]);
+        expect(dead).toHaveLength(1);
+        const [deadEntry] = await client.xrange("test:dlq", "-", "+");
+        expect(deadEntry.fields).toMatchObject({garbage: "1"});
+        expect(JSON.parse(String(deadEntry.fields.error))).toMatchObject({reason: "undecodable"});
+    });
+
+    it('should requeue the raw fields unchanged without a codec', async () => {
+        const client = new InMemoryGlideKitClient();
+        await client.xadd("test", {garbage: "1"});
+        await strand(client, ["a"]);
+        const [, original] = await client.xrange("test", "-", "+");
+        // e.g. an encrypted payload the sweeper has no key for
+        await client.xadd("test", {headers: original.fields.headers, payload: Buffer.from([0xff, 0x00, 0xfe]), kid: "k1"});
+        await client.xreadgroup({group: "svc", consumer: "crashed", blockMs: 1, count: 10, streams: [{key: "test", id: ">"}]});
+        client.advanceTime(60_000);
+
+        const sweeper = startPendingSweeper({client, stream: "test", group: "svc", consumer: "s1", minIdleMs: 30_000, tickMs: 25});
+        sweeper.start();
+        await expect.poll(() => client.xpending("test", "svc", {idle: 0, count: 10, start: "-", end: "+"}), {timeout: 5_000})
+            .toEqual([]);
+        await sweeper.stop();
+
+        expect(await client.xlen("test:dlq")).toBe(0);
+        const requeued = (await client.xrange("test", "-", "+")).slice(3).map((e) => e.fields);
+        expect(requeued).toEqual([
+            {garbage: "1"},
+            original.fields,
+            {headers: original.fields.headers, payload: Buffer.from([0xff, 0x00, 0xfe]), kid: "k1"},
+        ]);
+    });
+
+    it('should ack pending entries that were trimmed from the stream', async () => {
+        const client = new InMemoryGlideKitClient();
+        await strand(client, ["kept", "trimmed"]);
+        const [, trimmed] = await client.xrange("test", "-", "+");
+        await client.xdel("test", [trimmed.id]);
+        const deleted: string[] = [];
+
+        const sweeper = startPendingSweeper({client, stream: "test", group: "svc", consumer: "s1", minIdleMs: 30_000, tickMs: 25});
+        sweeper.on("claimed", (e) => deleted.push(...e.deleted));
+        sweeper.start();
+        await expect.poll(() => client.xpending("test", "svc", {idle: 0, count: 10, start: "-", end: "+"}), {timeout: 5_000})
+            .toEqual([]);
+        await sweeper.stop();
+
+        expect(deleted).toEqual([trimmed.id]);
+    });
+});
@@ -0,0 +1,118 @@
+import {backoffPolicy, jsonCodec, makeConsumer, makeProducer, startPendingSweeper} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+// Leaves one entry in the PEL as if `deliveries` consumers had crashed while handling it.
+async function crashLoop(client: InMemoryGlideKitClient, deliveries: number) {
+    await client.xgroupCreate("test", "svc", "0", {mkStream: true});
+    const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+    await producer.send({value: "boom"});
+    await client.xreadgroup({group: "svc", consumer: "crashed-1", blockMs: 0, count: 1, streams: [{key: "test", id: ">"}]});
+    for (let i = 2; i <= deliveries; i++) {
+        client.advanceTime(60_000);
+        const [pending] = await client.xpending("test", "svc", {idle: 0, count: 1, start: "-", end: "+"});
+        await client.xclaim("test", "svc", `crashed-${i}`, 30_000, [pending.id]);
+    }
+    client.advanceTime(60_000);
+}
+
+describe('Poison messages', () => {
+
+    it('should dead-letter entries past pelClaim.maxDeliveries without running the handler', async () => {
+        const client = new InMemoryGlideKitClient();
+        await crashLoop(client, 3);
+        const handled: string[] = [];
+        const poisoned: string[] = [];
+
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 0}}),
+            handler: async (job) => {
+                handled.push(job.value);
+            },
+            batch: {count: 16, blockMs: 50},
+            pelClaim: {enabled: true, minIdleMs: 30_000, intervalMs: 25, maxDeliveries: 3},
+        });
+        worker.on("poison", (e) => poisoned.push(...e.ids));
+        await worker.start();
+        await expect.poll(() => client.xlen("test:dlq"), {timeout: 5_000}).toBe(1);
+        await worker.stop();
+
+        expect(handled).toEqual([]);
+        expect(poisoned).toHaveLength(1);
+        expect(await client.xpending("test", "svc", {idle: 0, count: 10, start: "-", end: "+"})).toEqual([]);
+        const [dead] = await client.xrange("test:dlq", "-", "+");
+        expect(JSON.parse(String(dead.fields.payload))).toEqual({value: "boom"});
+        expect(JSON.parse(String(dead.fields.error))).toMatchObject({
+            reason: "poison",
+            meta: {deliveries: 3, maxDeliveries: 3, lastConsumer: "crashed-3"},
+        });
+    });
+
+    it('should let the pending sweeper redeliver below maxDeliveries and dead-letter at it', async () => {
+        const client = new InMemoryGlideKitClient();
+        await crashLoop(client, 2);
+        const reasons: string[] = [];
+
+        const sweeper = startPendingSweeper({
+            client, stream: "test", group: "svc", consumer: "sweeper", minIdleMs: 30_000, tickMs: 25, maxDeliveries: 3,
+            recovery: {
+                mode: "handle",
+                codec: jsonCodec<TestJob>(),
+                retryPolicy: backoffPolicy({maxAttempts: 5, strategy: {kind: "constant", delayMs: 0}}),
+                handler: () => new Promise(() => {
+                    // hangs like a crashed process would
+                }),
+            },
+            drainTimeoutMs: 10,
+        });
+        sweeper.on("dlq", (e) => reasons.push(e.reason));
+        sweeper.start();
+        await expect.poll(() => client.xpending("test", "svc", {idle: 0, count: 1, start: "-", end: "+"}), {timeout: 5_000})
+            .toMatchObject([{consumer: "sweeper", deliveries: 3}]);
+        client.advanceTime(60_000);
+        await expect.poll(() => client.xlen("test:dlq"), {timeout: 5_000}).toBe(1);
+        await sweeper.stop();
+
+        expect(reasons).toEqual(["poison"]);
+    });
+
+    it('should carry the delivery count across sweeper requeues and dead-letter at maxDeliveries', async () => {
+        const client = new InMemoryGlideKitClient();
+        await crashLoop(client, 1);
+        const reasons: string[] = [];
+
+        const sweeper = startPendingSweeper({
+            client, stream: "test", group: "svc", consumer: "sweeper", minIdleMs: 30_000, tickMs: 10, maxDeliveries: 3,
+        });
+        sweeper.on("dlq", (e) => reasons.push(e.reason));
+        sweeper.start();
+        // every copy the sweeper adds back crashes the consumer that reads it
+        for (let cycle = 2; cycle <= 10 && reasons.length === 0; cycle++) {
+            await expect.poll(async () => reasons.length > 0 || !!await client.xreadgroup({
+                group: "svc", consumer: `crashed-${cycle}`, blockMs: 1, count: 1, streams: [{key: "test", id: ">"}],
+            }), {timeout: 5_000}).toBe(true);
+            client.advanceTime(60_000);
+        }
+        await expect.poll(() => client.xlen("test:dlq"), {timeout: 5_000}).toBe(1);
+        await sweeper.stop();
+
+        expect(reasons).toEqual(["poison"]);
+        expect(await client.xlen("test")).toBe(3);
+        expect(await client.xpending("test", "svc", {idle: 0, count: 10, start: "-", end: "+"})).toEqual([]);
+        const [dead] = await client.xrange("test:dlq", "-", "+");
+        expect(dead.fields.deliveries).toBeUndefined();
+        expect(JSON.parse(String(dead.fields.error))).toMatchObject({
+            reason: "poison",
+            meta: {deliveries: 3, maxDeliveries: 3, lastConsumer: "crashed-3"},
+        });
+    });
+});
@@ -0,0 +1,50 @@
+import {getQueueStats} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+describe('Queue stats', () => {
+
+    it('should report length, group lag, pending, retry and DLQ numbers', async () => {
+        let now = 1_000_000;
+        const client = new InMemoryGlideKitClient({clock: () => now});
+        vi.useFakeTimers({toFake: ["Date"], now});
+        try {
+            await client.xgroupCreate("test", "svc", "$", {mkStream: true});
+            await client.xgroupCreate("test", "audit", "$");
+            const first = await client.xadd("test", {payload: "1"}, {id: `${now - 5_000}-0`});
+            await client.xadd("test", {payload: "2"});
+            await client.xadd("test", {payload: "3"});
+            await client.xreadgroup({group: "svc", consumer: "c1", blockMs: 0, count: 1, streams: [{key: "test", id: ">"}]});
+            now += 1_000;
+            await client.xreadgroup({group: "svc", consumer: "c2", blockMs: 0, count: 1, streams: [{key: "test", id: ">"}]});
+            now += 500;
+            vi.setSystemTime(now);
+
+            await client.zadd("test:retry", [{score: now + 60_000, member: "b"}, {score: now + 30_000, member: "a"}]);
+            await client.xadd("test:dlq", {payload: "x"});
+
+            const stats = await getQueueStats({client, stream: "test"});
+            expect(stats).toMatchObject({
+                stream: "test",
+                length: 3,
+                retry: {key: "test:retry", depth: 2, nextDueAt: now + 30_000},
+                dlq: {key: "test:dlq", length: 1},
+                at: now,
+            });
+            expect(stats.groups.map((g) => g.name)).toEqual(["svc", "audit"]);
+            const [svc, audit] = stats.groups;
+            expect(svc).toMatchObject({pending: 2, lag: 1, oldestPending: {id: first, ageMs: 6_500, idleMs: 1_500, deliveries: 1}});
+            expect(svc.consumers).toEqual([
+                {name: "c1", pending: 1, idleMs: 1_500},
+                {name: "c2", pending: 1, idleMs: 500},
+            ]);
+            expect(audit).toMatchObject({pending: 0, lag: 3, consumers: [], oldestPending: null});
+
+            expect((await getQueueStats({client, stream: "test", group: "audit"})).groups).toHaveLength(1);
+            await expect(getQueueStats({client, stream: "test", group: "nope"})).rejects.toThrow("no consumer group");
+            expect(await getQueueStats({client, stream: "missing"})).toMatchObject({length: 0, groups: [], retry: {depth: 0, nextDueAt: null}});
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,80 @@
+import {
+    backoffPolicy,
+    JobPayload,
+    jsonCodec,
+    makeConsumer,
+    makeRouter,
+    makeTypedProducer,
+    startRetryDaemon,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect, expectTypeOf} from "vitest";
+
+type Jobs = {
+    "email.send": { to: string };
+    "sms.send": { phone: number };
+};
+
+describe('Router', () => {
+
+    it('should route by type with per-type retry policies and an unknown-type fallback', async () => {
+        const client = new InMemoryGlideKitClient();
+        const emails: string[] = [];
+        let smsAttempts = 0;
+
+        const router = makeRouter<Jobs>()
+            .on("email.send", async (job) => {
+                expectTypeOf(job).toEqualTypeOf<{ to: string }>();
+                emails.push(job.to);
+            })
+            .on("sms.send", async (job) => {
+                expectTypeOf(job).toEqualTypeOf<{ phone: number }>();
+                smsAttempts++;
+                throw new Error("gateway down");
+            }, {retryPolicy: backoffPolicy({maxAttempts: 3, strategy: {kind: "constant", delayMs: 0}})})
+            .unknown("dlq");
+
+        const producer = makeTypedProducer<Jobs>({client, stream: "jobs", codec: jsonCodec<JobPayload<Jobs>>()});
+        const worker = makeConsumer<JobPayload<Jobs>>({
+            client,
+            stream: "jobs",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec<JobPayload<Jobs>>(),
+            handler: router.handler,
+            retryPolicy: router.retryPolicy(backoffPolicy({maxAttempts: 1, strategy: {kind: "constant", delayMs: 0}})),
+            batch: {count: 16, blockMs: 50},
+        });
+        const daemon = startRetryDaemon({client, retryZset: "jobs:retry", targetStream: "jobs", tickMs: 25});
+
+        await worker.start();
+        daemon.start();
+        await producer.send("email.send", {to: "a@b.com"});
+        await producer.send("sms.send", {phone: 123});
+        await client.xadd("jobs", {headers: JSON.stringify({type: "fax.send", attempt: 0, enqueuedAt: 0}), payload: "{}"});
+
+        await expect.poll(() => client.xlen("jobs:dlq"), {timeout: 5_000}).toBe(2);
+        expect(emails).toEqual(["a@b.com"]);
+        expect(smsAttempts).toBe(3);
+        const reasons = (await client.xrange("jobs:dlq", "-", "+")).map((e) => JSON.parse(String(e.fields.error)).reason);
+        expect(reasons.sort()).toEqual(["maxAttempts(3)", "unknown-type(fax.send)"]);
+
+        await worker.stop();
+        await daemon.stop();
+    });
+
+    it('should send unknown types through the retry policy when asked to', async () => {
+        const router = makeRouter<Jobs>().unknown("retry");
+        const ctx = {
+            headers: {type: "fax.send", attempt: 0, enqueuedAt: 0},
+            id: "1-0",
+            signal: new AbortController().signal,
+            extendLease: async () => true,
+            reportProgress: async () => {
+            },
+        };
+
+        await expect(router.handler({to: "x"}, ctx)).rejects.toThrow("no route for message type 'fax.send'");
+        expect(await makeRouter<Jobs>().unknown("ack").handler({to: "x"}, ctx)).toEqual({action: "ack"});
+    });
+});
@@ -0,0 +1,31 @@
+import {jsonCodec, makeProducer, startRetryDaemon} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+describe('Scheduled sends', () => {
+
+    it('should schedule delayed sends through the retry zset and allow cancelling them', async () => {
+        const client = new InMemoryGlideKitClient();
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>()});
+
+        const soon = await producer.send({value: "soon"}, {delayMs: 50});
+        const cancelled = await producer.send({value: "never"}, {runAt: new Date(Date.now() + 50)});
+        expect(await client.xlen("test")).toBe(0);
+        expect(JSON.parse(JSON.parse(soon.member).fields.headers)).toMatchObject({attempt: 0});
+
+        expect(await cancelled.cancel()).toBe(true);
+        expect(await cancelled.cancel()).toBe(false);
+
+        const daemon = startRetryDaemon({client, retryZset: "test:retry", targetStream: "test", tickMs: 25});
+        daemon.start();
+        await expect.poll(() => client.xlen("test"), {timeout: 5_000}).toBe(1);
+        await daemon.stop();
+
+        expect(await soon.cancel()).toBe(false);
+        expect(await client.zrangebyscore("test:retry", -Infinity, Infinity)).toEqual([]);
+    });
+});
@@ -0,0 +1,172 @@
+import {
+    backoffPolicy,
+    formatTraceparent,
+    jsonCodec,
+    makeConsumer,
+    makeProducer,
+    OtelApiLike,
+    otelTracer,
+    parseTraceparent,
+    SpanAttributes,
+    startRetryDaemon,
+    TracerLike,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+type RecordedSpan = {
+    name: string;
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    attributes: SpanAttributes;
+    error?: string;
+};
+
+// Minimal in-process tracer: every span gets a fresh id; a span without a parent starts a new trace.
+function recordingTracer(spans: RecordedSpan[]): TracerLike {
+    let next = 1;
+    const hex = (n: number, len: number) => n.toString(16).padStart(len, "0");
+    return {
+        async startActiveSpan(name, {parent, attributes = {}}, fn) {
+            const parsed = parent ? parseTraceparent(parent.traceparent) : undefined;
+            const span: RecordedSpan = {
+                name,
+                traceId: parsed?.traceId ?? hex(next, 32),
+                spanId: hex(next++, 16),
+                parentSpanId: parsed?.spanId,
+                attributes: {...attributes},
+            };
+            spans.push(span);
+            return fn({
+                setAttribute: (key, value) => {
+                    span.attributes[key] = value;
+                },
+                recordException: () => {
+                },
+                setError: (message) => {
+                    span.error = message;
+                },
+                context: () => ({traceparent: formatTraceparent(span.traceId, span.spanId, 1)}),
+            });
+        },
+    };
+}
+
+describe('Tracing', () => {
+
+    it('should link send, every attempt and a PEL reclaim into one trace', async () => {
+        const client = new InMemoryGlideKitClient();
+        const spans: RecordedSpan[] = [];
+        const tracer = recordingTracer(spans);
+        let failures = 1;
+
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>(), tracer});
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            handler: async () => {
+                if (failures-- > 0) throw new Error("flaky");
+            },
+            retryPolicy: backoffPolicy({maxAttempts: 3, strategy: {kind: "constant", delayMs: 0}}),
+            batch: {count: 16, blockMs: 50},
+            pelClaim: {enabled: true, minIdleMs: 0, intervalMs: 25},
+            tracer,
+        });
+        const daemon = startRetryDaemon({client, retryZset: "test:retry", targetStream: "test", tickMs: 25});
+
+        // delivered to a consumer that crashes before acking; c1 reclaims it from the PEL
+        await client.xgroupCreate("test", "svc", "$", {mkStream: true});
+        await producer.send({value: "v"}, {type: "job"});
+        await client.xreadgroup({group: "svc", consumer: "gone", blockMs: 0, count: 1, streams: [{key: "test", id: ">"}]});
+
+        await worker.start();
+        daemon.start();
+        await expect.poll(() => spans.filter((s) => s.attributes["glidekit.outcome"] === "ack").length, {timeout: 5_000}).toBe(1);
+        await worker.stop();
+        await daemon.stop();
+
+        const [send, first, second] = spans;
+        expect(spans).toHaveLength(3);
+        expect(send).toMatchObject({name: "test send", parentSpanId: undefined});
+        expect(first).toMatchObject({name: "test process", parentSpanId: send.spanId});
+        expect(first.attributes).toMatchObject({"glidekit.attempt": 0, "glidekit.outcome": "retry"});
+        expect(second).toMatchObject({parentSpanId: first.spanId});
+        expect(second.attributes).toMatchObject({"glidekit.attempt": 1, "glidekit.outcome": "ack"});
+        expect(new Set(spans.map((s) => s.traceId)).size).toBe(1);
+    });
+
+    it('should inject traceparent and traceId into headers and keep them on DLQ entries', async () => {
+        const client = new InMemoryGlideKitClient();
+        const spans: RecordedSpan[] = [];
+        const producer = makeProducer<TestJob>({client, stream: "test", codec: jsonCodec<TestJob>(), tracer: recordingTracer(spans)});
+
+        await producer.send({value: "v"});
+        const [entry] = await client.xrange("test", "-", "+");
+        const headers = JSON.parse(String(entry.fields.headers));
+        expect(headers.traceparent).toBe(formatTraceparent(spans[0].traceId, spans[0].spanId, 1));
+        expect(headers.traceId).toBe(spans[0].traceId);
+
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "svc",
+            consumer: "c1",
+            codec: jsonCodec<TestJob>(),
+            handler: async () => ({action: "dlq", reason: "nope"}),
+            retryPolicy: backoffPolicy({maxAttempts: 1, strategy: {kind: "constant", delayMs: 0}}),
+            batch: {count: 16, blockMs: 50},
+            tracer: recordingTracer(spans),
+        });
+        await client.xgroupCreate("test", "svc", "0", {mkStream: true});
+        await worker.start();
+        await expect.poll(() => client.xlen("test:dlq"), {timeout: 5_000}).toBe(1);
+        await worker.stop();
+
+        const [dead] = await client.xrange("test:dlq", "-", "+");
+        expect(JSON.parse(String(dead.fields.headers)).traceparent).toBe(headers.traceparent);
+        expect(spans[1].error).toBe("nope");
+    });
+
+    it('should continue remote parents and format span contexts through the OpenTelemetry adapter', async () => {
+        const started: Array<{ name: string; kind?: number; parent: unknown }> = [];
+        const api: OtelApiLike = {
+            trace: {
+                getTracer: () => ({
+                    startActiveSpan: (name, options, context, fn) => {
+                        started.push({name, kind: options.kind, parent: context});
+                        return fn({
+                            setAttribute: () => undefined,
+                            recordException: () => undefined,
+                            setStatus: () => undefined,
+                            spanContext: () => ({traceId: "a".repeat(32), spanId: "b".repeat(16), traceFlags: 1}),
+                            end: () => undefined,
+                        }) as any;
+                    },
+                }),
+                setSpanContext: (_ctx, spanContext) => ({remote: spanContext}),
+            },
+            context: {active: () => ({root: true})},
+        };
+        const tracer = otelTracer(api);
+        const parent = {traceparent: formatTraceparent("c".repeat(32), "d".repeat(16), 1)};
+
+        const ctx = await tracer.startActiveSpan("s process", {kind: "consumer", parent}, async (span) => span.context());
+        await tracer.startActiveSpan("s send", {kind: "producer"}, async () => undefined);
+
+        expect(ctx).toEqual({traceparent: `00-${"a".repeat(32)}-${"b".repeat(16)}-01`});
+        expect(started[0]).toEqual({
+            name: "s process",
+            kind: 4,
+            parent: {remote: {traceId: "c".repeat(32), spanId: "d".repeat(16), traceFlags: 1, isRemote: true, traceState: undefined}},
+        });
+        expect(started[1]).toEqual({name: "s send", kind: 3, parent: {root: true}});
+    });
+});
@@ -0,0 +1,87 @@
+import {
+    backoffPolicy,
+    CodecError,
+    jsonCodec,
+    makeConsumer,
+    makeProducer,
+    validatingCodec,
+    Validator,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+interface TestJob {
+    value: string;
+}
+
+const isJob = (value: unknown): value is TestJob =>
+    typeof value === "object" && value !== null && typeof (value as TestJob).value === "string";
+
+const handWritten: Validator<TestJob> = (value) => {
+    if (!isJob(value)) throw new Error("value must be a string");
+    return value;
+};
+
+// what zod and valibot schemas expose
+const standardSchema: Validator<TestJob> = {
+    "~standard": {
+        validate: (value: unknown) => isJob(value)
+            ? {value: {value: value.value.trim()}}
+            : {issues: [{message: "value must be a string"}]},
+    },
+};
+
+const headers = {type: "job", attempt: 0, enqueuedAt: 0};
+
+describe('validatingCodec', () => {
+
+    it('should validate payloads on encode and decode with any validator style', () => {
+        for (const validator of [handWritten, {parse: handWritten as (value: unknown) => TestJob}, standardSchema]) {
+            const codec = validatingCodec(jsonCodec<unknown>(), validator);
+            expect(codec.decode(codec.encode({headers, payload: {value: "ok"}})).payload).toEqual({value: "ok"});
+            expect(() => codec.encode({headers, payload: {value: 1} as unknown as TestJob})).toThrow(CodecError);
+            expect(() => codec.decode({headers: JSON.stringify(headers), payload: "{}"})).toThrow(/decode: payload failed validation/);
+        }
+        const codec = validatingCodec(jsonCodec<unknown>(), standardSchema);
+        expect(codec.decode({headers: JSON.stringify(headers), payload: '{"value":" padded "}'}).payload).toEqual({value: "padded"});
+        expect(() => codec.decode({headers: JSON.stringify(headers), payload: "not json"})).toThrow(CodecError);
+    });
+
+    it('should dead-letter messages that fail decoding with their raw fields', async () => {
+        const client = new InMemoryGlideKitClient();
+        const codec = validatingCodec(jsonCodec<unknown>(), standardSchema);
+        const producer = makeProducer<TestJob>({client, stream: "test", codec});
+        const handled: string[] = [];
+        const undecodable: string[] = [];
+        const worker = makeConsumer<TestJob>({
+            client,
+            stream: "test",
+            group: "svc",
+            consumer: "c1",
+            codec,
+            retryPolicy: backoffPolicy({maxAttempts: 3, strategy: {kind: "constant", delayMs: 0}}),
+            handler: async (job) => {
+                handled.push(job.value);
+            },
+            batch: {count: 16, blockMs: 50},
+        });
+        worker.on("undecodable", (e) => undecodable.push(e.id));
+        await worker.start();
+
+        // a producer that does not validate
+        const badId = await client.xadd("test", jsonCodec<unknown>().encode({headers, payload: {value: 42}}));
+        await producer.send({value: "good"});
+        await expect.poll(() => handled, {timeout: 5_000}).toEqual(["good"]);
+        await expect.poll(() => client.xlen("test:dlq"), {timeout: 5_000}).toBe(1);
+        await worker.stop();
+
+        expect(undecodable).toEqual([badId]);
+        expect(await client.xpending("test", "svc", {idle: 0, count: 10, start: "-", end: "+"})).toEqual([]);
+        const [dead] = await client.xrange("test:dlq", "-", "+");
+        expect(JSON.parse(String(dead.fields.payload))).toEqual({value: 42});
+        expect(JSON.parse(String(dead.fields.error))).toMatchObject({
+            reason: "undecodable",
+            meta: {issues: [{message: "value must be a string"}]},
+        });
+    });
+});
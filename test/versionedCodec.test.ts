@@ -0,0 +1,95 @@
+import {
+    CodecError,
+    jsonCodec,
+    makeConsumer,
+    makeDlqManager,
+    MessageHeaders,
+    startRetryDaemon,
+    Upcaster,
+    versionedCodec,
+} from "../src";
+import {InMemoryGlideKitClient} from "../src/testing";
+import {expect} from "vitest";
+
+// v1 {name}, v2 {first, last}, v3 {first, last, email?}
+interface UserV3 {
+    first: string;
+    last: string;
+    email: string | null;
+}
+
+const upcasters: Upcaster[] = [
+    (v1) => {
+        const [first, ...rest] = (v1 as { name: string }).name.split(" ");
+        return {first, last: rest.join(" ")};
+    },
+    (v2) => ({...v2 as { first: string; last: string }, email: null}),
+];
+
+const legacy = (payload: unknown, version?: number) => jsonCodec<unknown>().encode({
+    headers: {type: "user.created", attempt: 0, enqueuedAt: 0, ...(version ? {version} : {})},
+    payload,
+});
+
+describe('versionedCodec', () => {
+
+    it('should stamp the current version and upcast older payloads through the chain', () => {
+        const codec = versionedCodec<UserV3>(jsonCodec(), {upcasters});
+        const current = {first: "Ada", last: "Lovelace", email: "ada@example.com"};
+
+        const encoded = codec.encode({headers: {type: "user.created", attempt: 0, enqueuedAt: 0}, payload: current});
+        expect(JSON.parse(String(encoded.headers))).toMatchObject({version: 3});
+        expect(codec.decode(encoded).payload).toEqual(current);
+        expect(codec.decode(legacy({name: "Grace Brewster Hopper"}))).toEqual({
+            headers: expect.objectContaining({version: 3}),
+            payload: {first: "Grace", last: "Brewster Hopper", email: null},
+        });
+        expect(codec.decode(legacy({first: "Alan", last: "Turing"}, 2)).payload).toEqual({first: "Alan", last: "Turing", email: null});
+        expect(() => codec.decode(legacy(current, 4))).toThrow(CodecError);
+
+        const perType = versionedCodec<unknown>(jsonCodec(), {upcasters: {"user.created": upcasters}});
+        const other = perType.encode({headers: {type: "user.deleted", attempt: 0, enqueuedAt: 0}, payload: {id: 1}});
+        expect(JSON.parse(String(other.headers))).toMatchObject({version: 1});
+    });
+
+    it('should decode old retry ZSET members and DLQ entries as the current payload', async () => {
+        const client = new InMemoryGlideKitClient();
+        const codec = versionedCodec<UserV3>(jsonCodec(), {upcasters});
+        const handled: Array<{ payload: UserV3; headers: MessageHeaders }> = [];
+
+        // written by last week's deploy
+        await client.zadd("users:retry", [{score: 0, member: JSON.stringify({stream: "users", fields: legacy({name: "Ada Lovelace"})})}]);
+        await client.xadd("users:dlq", {...legacy({name: "Grace Hopper"}), error: JSON.stringify({reason: "boom"})});
+
+        const worker = makeConsumer<UserV3>({
+            client,
+            stream: "users",
+            group: "svc",
+            consumer: "c1",
+            codec,
+            retryPolicy: {next: () => ({action: "dlq"})},
+            handler: async (payload, {headers}) => {
+                handled.push({payload, headers});
+            },
+            batch: {count: 16, blockMs: 50},
+        });
+        const daemon = startRetryDaemon({client, retryZset: "users:retry", targetStream: "users", tickMs: 25});
+        await worker.start();
+        daemon.start();
+        await expect.poll(() => handled.length, {timeout: 5_000}).toBe(1);
+        await worker.stop();
+        await daemon.stop();
+        expect(handled[0]).toEqual({
+            payload: {first: "Ada", last: "Lovelace", email: null},
+            headers: expect.objectContaining({version: 3}),
+        });
+
+        const dlq = makeDlqManager<UserV3>({client, stream: "users", codec});
+        const {entries: [dead]} = await dlq.list();
+        expect(dead.payload).toEqual({first: "Grace", last: "Hopper", email: null});
+        const [{requeuedAs}] = await dlq.requeue(dead.id);
+        const [requeued] = await client.xrange("users", requeuedAs!, requeuedAs!);
+        expect(JSON.parse(String(requeued.fields.headers))).toMatchObject({version: 3, attempt: 0});
+        expect(codec.decode(requeued.fields).payload).toEqual({first: "Grace", last: "Hopper", email: null});
+    });
+});
@@ -2,7 +2,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-    entry: ['src/index.ts'], // Specify your entry file(s) here
+    entry: {index: 'src/index.ts', cli: 'src/cli.ts', testing: 'src/testing/index.ts'}, // testing: the `./testing` subpath
     format: ['esm', "cjs"],
     dts: true,
     clean: true,